@@ -1,10 +1,20 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { AuthProvider } from './src/context/AuthContext';
 import { AppNavigator } from './src/navigation/AppNavigator';
 import { ErrorBoundary } from './src/components/ErrorBoundary';
+import { SyncQueueService } from './src/services/syncQueue';
+import { ImageUploadService } from './src/services/imageUpload';
+import { Repositories } from './src/repositories';
+
+// Storage backend for users and bills, from EXPO_PUBLIC_BACKEND
+Repositories.configure();
 
 export default function App() {
+  // Upload bills captured offline whenever the app is running
+  useEffect(() => SyncQueueService.start(), []);
+  useEffect(() => ImageUploadService.start(), []);
+
   return (
     <ErrorBoundary>
       <AuthProvider>
@@ -0,0 +1,121 @@
+import React from 'react';
+import { View, Text, TextInput, StyleSheet, KeyboardTypeOptions } from 'react-native';
+import { BillField, BillFieldConfidence } from '../types';
+import { BillFormField, BillFormValidation, BillFormValues } from '../utils/billForm';
+import { LOW_CONFIDENCE_THRESHOLD } from '../services/ocr';
+
+interface Props {
+  values: BillFormValues;
+  validation: BillFormValidation;
+  fieldConfidence?: BillFieldConfidence;
+  onChange: (field: BillFormField, value: string) => void;
+}
+
+interface FieldConfig {
+  field: BillFormField;
+  label: string;
+  placeholder: string;
+  keyboardType?: KeyboardTypeOptions;
+  // Which parsed bill field's confidence applies to this input
+  confidenceField?: BillField;
+}
+
+const FIELDS: FieldConfig[] = [
+  { field: 'billNumber', label: 'Bill Number', placeholder: '02251230T1100O0082', confidenceField: 'billNumber' },
+  { field: 'date', label: 'Date', placeholder: 'DD/MM/YYYY', keyboardType: 'numbers-and-punctuation', confidenceField: 'date' },
+  { field: 'time', label: 'Time', placeholder: 'HH:MM', keyboardType: 'numbers-and-punctuation' },
+  { field: 'amount', label: 'Fare (₹)', placeholder: '20', keyboardType: 'decimal-pad', confidenceField: 'amount' },
+  { field: 'from', label: 'From', placeholder: 'e.g. PCMC', confidenceField: 'from' },
+  { field: 'to', label: 'To', placeholder: 'e.g. Swargate', confidenceField: 'to' },
+  { field: 'co2Saved', label: 'Printed CO2 (g)', placeholder: '0.59', keyboardType: 'decimal-pad', confidenceField: 'co2Saved' },
+];
+
+export const BillReviewForm: React.FC<Props> = ({ values, validation, fieldConfidence, onChange }) => {
+  return (
+    <View style={styles.form}>
+      {FIELDS.map(({ field, label, placeholder, keyboardType, confidenceField }) => {
+        const score = confidenceField ? fieldConfidence?.[confidenceField] : undefined;
+        const lowConfidence = score !== undefined && score.confidence < LOW_CONFIDENCE_THRESHOLD;
+        const error = validation.errors[field];
+        const warning = validation.warnings[field];
+
+        return (
+          <View key={field} style={styles.field}>
+            <Text style={[styles.label, lowConfidence && styles.lowConfidenceLabel]}>
+              {label}
+              {score?.source === 'qr' ? '  · from QR' : ''}
+              {lowConfidence ? '  ⚠️ check this' : ''}
+            </Text>
+            <TextInput
+              style={[
+                styles.input,
+                lowConfidence && styles.lowConfidenceInput,
+                error ? styles.errorInput : null,
+              ]}
+              value={values[field]}
+              onChangeText={(text) => onChange(field, text)}
+              placeholder={placeholder}
+              keyboardType={keyboardType}
+              autoCapitalize={field === 'billNumber' ? 'characters' : 'words'}
+              autoCorrect={false}
+              underlineColorAndroid="transparent"
+            />
+            {lowConfidence && score.corrections.length > 0 && (
+              <Text style={styles.hintText}>{score.corrections.join(' · ')}</Text>
+            )}
+            {error ? (
+              <Text style={styles.errorText}>{error}</Text>
+            ) : warning ? (
+              <Text style={styles.warningText}>{warning}</Text>
+            ) : null}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  form: {
+    gap: 12,
+  },
+  field: {
+    gap: 4,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  lowConfidenceLabel: {
+    color: '#FF9500',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    color: '#000',
+  },
+  lowConfidenceInput: {
+    borderColor: '#FF9500',
+    backgroundColor: '#FFF8EC',
+  },
+  errorInput: {
+    borderColor: '#FF3B30',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#888',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#FF3B30',
+  },
+  warningText: {
+    fontSize: 12,
+    color: '#FF9500',
+  },
+});
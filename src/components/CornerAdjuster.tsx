@@ -0,0 +1,206 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  Image,
+  TouchableOpacity,
+  StyleSheet,
+  PanResponder,
+  LayoutChangeEvent,
+} from 'react-native';
+import Svg, { Polygon } from 'react-native-svg';
+import { TicketCorners } from '../types';
+
+interface Props {
+  visible: boolean;
+  uri: string;
+  // Size of the image the corners refer to
+  imageWidth: number;
+  imageHeight: number;
+  initialCorners: TicketCorners;
+  // Whether initialCorners came from detection rather than a default frame
+  detected: boolean;
+  onConfirm: (corners: TicketCorners) => void;
+  onUseWholePhoto: () => void;
+  onCancel: () => void;
+}
+
+const HANDLE_SIZE = 36;
+
+// Drag the four corner handles onto the ticket's corners
+export const CornerAdjuster: React.FC<Props> = ({
+  visible,
+  uri,
+  imageWidth,
+  imageHeight,
+  initialCorners,
+  detected,
+  onConfirm,
+  onUseWholePhoto,
+  onCancel,
+}) => {
+  const [corners, setCorners] = useState<TicketCorners>(initialCorners);
+  const [frame, setFrame] = useState({ width: 0, height: 0 });
+  // Corner positions when the current drag began, in image pixels
+  const dragStart = useRef<TicketCorners>(initialCorners);
+  const cornersRef = useRef(corners);
+  cornersRef.current = corners;
+
+  useEffect(() => {
+    if (visible) setCorners(initialCorners);
+  }, [visible, initialCorners]);
+
+  // The image is drawn "contain"-fitted inside the frame
+  const scale = frame.width && frame.height ? Math.min(frame.width / imageWidth, frame.height / imageHeight) : 0;
+  const offsetX = (frame.width - imageWidth * scale) / 2;
+  const offsetY = (frame.height - imageHeight * scale) / 2;
+  const scaleRef = useRef(scale);
+  scaleRef.current = scale;
+
+  const handles = useMemo(
+    () =>
+      [0, 1, 2, 3].map((corner) =>
+        PanResponder.create({
+          onStartShouldSetPanResponder: () => true,
+          onPanResponderGrant: () => {
+            dragStart.current = cornersRef.current;
+          },
+          onPanResponderMove: (_, state) => {
+            if (!scaleRef.current) return;
+            const start = dragStart.current[corner];
+            const next = [...cornersRef.current] as TicketCorners;
+            next[corner] = {
+              x: Math.min(imageWidth, Math.max(0, start.x + state.dx / scaleRef.current)),
+              y: Math.min(imageHeight, Math.max(0, start.y + state.dy / scaleRef.current)),
+            };
+            setCorners(next);
+          },
+        }),
+      ),
+    [imageWidth, imageHeight],
+  );
+
+  const toScreen = (point: { x: number; y: number }) => ({
+    x: offsetX + point.x * scale,
+    y: offsetY + point.y * scale,
+  });
+
+  const onLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setFrame({ width, height });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onCancel}>
+      <View style={styles.container}>
+        <Text style={styles.title}>Adjust ticket corners</Text>
+        <Text style={styles.hint}>
+          {detected
+            ? 'Check that the corners sit on the ticket, then continue.'
+            : "Couldn't find the ticket's edges. Drag the corners onto the ticket."}
+        </Text>
+
+        <View style={styles.frame} onLayout={onLayout}>
+          <Image source={{ uri }} style={StyleSheet.absoluteFill} resizeMode="contain" />
+          {scale > 0 ? (
+            <>
+              <Svg style={StyleSheet.absoluteFill}>
+                <Polygon
+                  points={corners.map((point) => `${toScreen(point).x},${toScreen(point).y}`).join(' ')}
+                  fill="rgba(0, 122, 255, 0.15)"
+                  stroke="#007AFF"
+                  strokeWidth={2}
+                />
+              </Svg>
+              {corners.map((point, corner) => {
+                const position = toScreen(point);
+                return (
+                  <View
+                    key={corner}
+                    {...handles[corner].panHandlers}
+                    style={[styles.handle, { left: position.x - HANDLE_SIZE / 2, top: position.y - HANDLE_SIZE / 2 }]}
+                  />
+                );
+              })}
+            </>
+          ) : null}
+        </View>
+
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={onCancel}>
+            <Text style={styles.secondaryText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.secondaryButton} onPress={onUseWholePhoto}>
+            <Text style={styles.secondaryText}>Use whole photo</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.primaryButton} onPress={() => onConfirm(corners)}>
+            <Text style={styles.primaryText}>Continue</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+    paddingTop: 48,
+    paddingBottom: 24,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  hint: {
+    color: '#ccc',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+    marginHorizontal: 20,
+  },
+  frame: {
+    flex: 1,
+    margin: 20,
+  },
+  handle: {
+    position: 'absolute',
+    width: HANDLE_SIZE,
+    height: HANDLE_SIZE,
+    borderRadius: HANDLE_SIZE / 2,
+    borderWidth: 3,
+    borderColor: '#007AFF',
+    backgroundColor: 'rgba(255, 255, 255, 0.6)',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    gap: 12,
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+  },
+  secondaryText: {
+    color: '#fff',
+    fontSize: 16,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+    minWidth: 110,
+    alignItems: 'center',
+  },
+  primaryText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
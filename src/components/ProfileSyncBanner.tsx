@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { useAuth } from '../context/AuthContext';
+
+// Shown while the signed-in account has no server profile yet
+export const ProfileSyncBanner: React.FC = () => {
+  const { user, profileSynced, syncProfile } = useAuth();
+  const [retrying, setRetrying] = useState(false);
+
+  if (!user || profileSynced) {
+    return null;
+  }
+
+  const retry = async () => {
+    setRetrying(true);
+    await syncProfile();
+    setRetrying(false);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.textContainer}>
+        <Text style={styles.title}>⚠️ Account not synced</Text>
+        <Text style={styles.hint}>
+          Your profile is only on this device. It will be saved to your account when the connection is back.
+        </Text>
+      </View>
+      <TouchableOpacity onPress={retry} disabled={retrying} style={styles.retryButton}>
+        {retrying ? <ActivityIndicator color="#B26A00" /> : <Text style={styles.retryText}>Retry</Text>}
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFF8E1',
+    borderColor: '#FFB300',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginHorizontal: 16,
+    marginTop: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  textContainer: {
+    flex: 1,
+    gap: 4,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#B26A00',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+  },
+  retryButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  retryText: {
+    color: '#B26A00',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,146 @@
+import React, { forwardRef, useImperativeHandle, useRef, useState } from 'react';
+import { Modal, View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import type { ApplicationVerifier } from 'firebase/auth';
+import { EMULATOR_HOST, firebaseConfig } from '../services/firebase';
+
+// Compat build for the page inside the WebView; reCAPTCHA needs a browser DOM
+const FIREBASE_JS_VERSION = '10.14.1';
+
+type VerifierMessage = { type: 'token'; token: string } | { type: 'error'; message: string };
+
+const recaptchaPage = () => `<!DOCTYPE html>
+<html>
+<head>
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <script src="https://www.gstatic.com/firebasejs/${FIREBASE_JS_VERSION}/firebase-app-compat.js"></script>
+  <script src="https://www.gstatic.com/firebasejs/${FIREBASE_JS_VERSION}/firebase-auth-compat.js"></script>
+</head>
+<body>
+  <div id="recaptcha"></div>
+  <script>
+    const post = (message) => window.ReactNativeWebView.postMessage(JSON.stringify(message));
+    try {
+      firebase.initializeApp(${JSON.stringify(firebaseConfig)});
+      new firebase.auth.RecaptchaVerifier('recaptcha', { size: 'invisible' })
+        .verify()
+        .then((token) => post({ type: 'token', token }))
+        .catch((error) => post({ type: 'error', message: error.message }));
+    } catch (error) {
+      post({ type: 'error', message: error.message });
+    }
+  </script>
+</body>
+</html>`;
+
+// reCAPTCHA for Firebase phone auth in React Native. The invisible check usually passes on its own;
+// when Google wants a challenge the modal shows it.
+export const RecaptchaVerifier = forwardRef<ApplicationVerifier>((_, ref) => {
+  const [visible, setVisible] = useState(false);
+  const pending = useRef<{ resolve: (token: string) => void; reject: (error: Error) => void } | null>(null);
+
+  const settle = (result: { token: string } | { error: Error }) => {
+    const current = pending.current;
+    pending.current = null;
+    setVisible(false);
+    if (!current) return;
+    if ('token' in result) {
+      current.resolve(result.token);
+    } else {
+      current.reject(result.error);
+    }
+  };
+
+  useImperativeHandle(ref, () => ({
+    type: 'recaptcha',
+    verify: () => {
+      // The auth emulator does not check the token
+      if (EMULATOR_HOST) {
+        return Promise.resolve('emulator-token');
+      }
+      pending.current?.reject(new Error('reCAPTCHA verification restarted'));
+      return new Promise<string>((resolve, reject) => {
+        pending.current = { resolve, reject };
+        setVisible(true);
+      });
+    },
+    // Called by @firebase/auth once verifyPhoneNumber settles; the next send needs a fresh token
+    _reset: () => {
+      pending.current?.reject(new Error('reCAPTCHA verification reset'));
+      pending.current = null;
+      setVisible(false);
+    },
+  }));
+
+  const handleMessage = (event: WebViewMessageEvent) => {
+    try {
+      const message: VerifierMessage = JSON.parse(event.nativeEvent.data);
+      if (message.type === 'token') {
+        settle({ token: message.token });
+      } else {
+        settle({ error: new Error(`reCAPTCHA failed: ${message.message}`) });
+      }
+    } catch (error) {
+      settle({ error: new Error('reCAPTCHA returned an unreadable response') });
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={() => settle({ error: new Error('reCAPTCHA cancelled') })}
+    >
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Verifying you're not a robot…</Text>
+          {visible ? (
+            <WebView
+              style={styles.webView}
+              originWhitelist={['*']}
+              // reCAPTCHA only runs on a domain authorised for the Firebase project
+              source={{ html: recaptchaPage(), baseUrl: `https://${firebaseConfig.authDomain}` }}
+              onMessage={handleMessage}
+              onError={(event) => settle({ error: new Error(event.nativeEvent.description) })}
+            />
+          ) : null}
+          <TouchableOpacity onPress={() => settle({ error: new Error('reCAPTCHA cancelled') })}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+});
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
+  webView: {
+    width: 320,
+    height: 480,
+    backgroundColor: 'transparent',
+  },
+  cancelText: {
+    color: '#007AFF',
+    fontSize: 14,
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,52 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { ReconciliationService } from '../services/reconciliation';
+import { SourceMismatch } from '../types';
+
+interface Props {
+  mismatches: SourceMismatch[];
+}
+
+export const SourceMismatchNotice: React.FC<Props> = ({ mismatches }) => {
+  if (mismatches.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>⚠️ QR code and printed ticket disagree</Text>
+      {mismatches.map((mismatch) => (
+        <Text key={mismatch.field} style={styles.item}>
+          {ReconciliationService.describe(mismatch)}
+        </Text>
+      ))}
+      <Text style={styles.hint}>The ticket may be misread or altered. Check these fields before saving.</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFF3F2',
+    borderColor: '#FF3B30',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+    gap: 4,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+  item: {
+    fontSize: 14,
+    color: '#333',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4,
+  },
+});
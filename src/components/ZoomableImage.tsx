@@ -0,0 +1,99 @@
+import React, { useMemo, useRef } from 'react';
+import { Animated, PanResponder, StyleSheet, View, GestureResponderEvent, StyleProp, ViewStyle } from 'react-native';
+
+interface Props {
+  uri: string;
+  style?: StyleProp<ViewStyle>;
+  maxScale?: number;
+}
+
+const DOUBLE_TAP_MS = 300;
+
+const touchDistance = (event: GestureResponderEvent) => {
+  const [a, b] = event.nativeEvent.touches;
+  return Math.hypot(a.pageX - b.pageX, a.pageY - b.pageY);
+};
+
+// Pinch to zoom, drag to pan while zoomed, double tap to reset
+export const ZoomableImage: React.FC<Props> = ({ uri, style, maxScale = 4 }) => {
+  const scale = useRef(new Animated.Value(1)).current;
+  const translate = useRef(new Animated.ValueXY({ x: 0, y: 0 })).current;
+  const gesture = useRef({ scale: 1, x: 0, y: 0, pinchStart: 0, scaleStart: 1, lastTap: 0 }).current;
+
+  const reset = () => {
+    gesture.scale = 1;
+    gesture.x = 0;
+    gesture.y = 0;
+    Animated.parallel([
+      Animated.spring(scale, { toValue: 1, useNativeDriver: true }),
+      Animated.spring(translate, { toValue: { x: 0, y: 0 }, useNativeDriver: true }),
+    ]).start();
+  };
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        // Only take over scrolling from the parent once zoomed in or pinching
+        onMoveShouldSetPanResponder: (event) => gesture.scale > 1 || event.nativeEvent.touches.length === 2,
+        onPanResponderGrant: (event) => {
+          const now = Date.now();
+          if (now - gesture.lastTap < DOUBLE_TAP_MS) {
+            reset();
+          }
+          gesture.lastTap = now;
+          gesture.pinchStart = 0;
+        },
+        onPanResponderMove: (event, state) => {
+          if (event.nativeEvent.touches.length === 2) {
+            if (!gesture.pinchStart) {
+              gesture.pinchStart = touchDistance(event);
+              gesture.scaleStart = gesture.scale;
+            }
+            const next = (gesture.scaleStart * touchDistance(event)) / gesture.pinchStart;
+            scale.setValue(Math.min(maxScale, Math.max(1, next)));
+          } else if (gesture.scale > 1) {
+            translate.setValue({ x: gesture.x + state.dx / gesture.scale, y: gesture.y + state.dy / gesture.scale });
+          }
+        },
+        onPanResponderRelease: (_, state) => {
+          if (gesture.pinchStart) {
+            // Read back the scale the pinch ended on
+            scale.stopAnimation((value) => {
+              gesture.scale = value;
+              if (value <= 1) reset();
+            });
+          } else if (gesture.scale > 1) {
+            gesture.x += state.dx / gesture.scale;
+            gesture.y += state.dy / gesture.scale;
+          }
+        },
+        onPanResponderTerminationRequest: () => gesture.scale === 1,
+      }),
+    [maxScale],
+  );
+
+  return (
+    <View style={[styles.container, style]} {...panResponder.panHandlers}>
+      <Animated.Image
+        source={{ uri }}
+        resizeMode="contain"
+        style={[
+          styles.image,
+          { transform: [{ scale }, { translateX: translate.x }, { translateY: translate.y }] },
+        ]}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+    backgroundColor: '#000',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+});
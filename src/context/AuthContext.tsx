@@ -1,13 +1,30 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { User } from '../types';
-import { AuthService } from '../services/auth';
+import { AppState } from 'react-native';
+import type { ApplicationVerifier } from 'firebase/auth';
+import { AuthErrorState, OtpStatus, User } from '../types';
+import { AuthFailure, AuthService } from '../services/auth';
+
+// Retry delay for an unsynced profile doubles per failure: 15 s, 30 s ... capped at 10 min
+const RECONCILE_BASE_MS = 15000;
+const RECONCILE_MAX_MS = 10 * 60 * 1000;
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
+  // False while signed in without a server profile; reconciliation keeps retrying in the background
+  profileSynced: boolean;
+  // Retry reconciliation now; resolves whether the profile is synced
+  syncProfile: () => Promise<boolean>;
+  // sendOTP and login resolve false and set this when refused for a known reason
+  authError: AuthErrorState | null;
+  // Resend countdown, lockout and attempts left for the number being signed in
+  otpStatus: OtpStatus | null;
   login: (phoneNumber: string, otp: string, name?: string, photoUrl?: string) => Promise<boolean>;
   logout: () => Promise<void>;
-  sendOTP: (phoneNumber: string) => Promise<boolean>;
+  // The verifier runs reCAPTCHA before Firebase sends the SMS
+  sendOTP: (phoneNumber: string, verifier: ApplicationVerifier) => Promise<boolean>;
+  refreshOtpStatus: (phoneNumber: string) => Promise<void>;
+  clearAuthError: () => void;
   updateUser: (userData: Partial<User>) => void;
 }
 
@@ -16,15 +33,47 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [authError, setAuthError] = useState<AuthErrorState | null>(null);
+  const [otpStatus, setOtpStatus] = useState<OtpStatus | null>(null);
+  const [profileSynced, setProfileSynced] = useState(true);
 
   useEffect(() => {
     checkUser();
   }, []);
 
+  // Keep trying to create or merge the server profile: with backoff, and whenever the app comes back
+  useEffect(() => {
+    if (!user || profileSynced) return;
+
+    let attempts = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const attempt = async () => {
+      if (timer) clearTimeout(timer);
+      const synced = await syncProfile();
+      if (cancelled || synced) return;
+      const delay = Math.min(RECONCILE_MAX_MS, RECONCILE_BASE_MS * 2 ** attempts);
+      attempts += 1;
+      timer = setTimeout(attempt, delay);
+    };
+
+    attempt();
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') attempt();
+    });
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      subscription.remove();
+    };
+  }, [user?.id, profileSynced]);
+
   const checkUser = async () => {
     try {
       const currentUser = await AuthService.getCurrentUser();
       setUser(currentUser);
+      setProfileSynced(await AuthService.isProfileSynced());
     } catch (error) {
       console.error('Error checking user:', error);
     } finally {
@@ -38,26 +87,78 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const sendOTP = async (phoneNumber: string): Promise<boolean> => {
-    return await AuthService.sendOTP(phoneNumber);
+  const syncProfile = async (): Promise<boolean> => {
+    try {
+      const synced = await AuthService.reconcileProfile();
+      setUser(synced);
+      setProfileSynced(true);
+      return true;
+    } catch (error) {
+      console.warn('⚠️ Profile still not synced:', error);
+      return false;
+    }
+  };
+
+  const refreshOtpStatus = async (phoneNumber: string) => {
+    setOtpStatus(await AuthService.getOtpStatus(phoneNumber));
+  };
+
+  const clearAuthError = () => setAuthError(null);
+
+  // AuthFailure becomes authError; anything else is rethrown for the caller
+  const handleFailure = async (error: unknown, phoneNumber: string): Promise<false> => {
+    if (!(error instanceof AuthFailure)) throw error;
+    setAuthError(error.state);
+    await refreshOtpStatus(phoneNumber);
+    return false;
+  };
+
+  const sendOTP = async (phoneNumber: string, verifier: ApplicationVerifier): Promise<boolean> => {
+    setAuthError(null);
+    try {
+      setOtpStatus(await AuthService.sendOTP(phoneNumber, verifier));
+      return true;
+    } catch (error) {
+      return handleFailure(error, phoneNumber);
+    }
   };
 
   const login = async (phoneNumber: string, otp: string, name?: string, photoUrl?: string): Promise<boolean> => {
-    const verifiedUser = await AuthService.verifyOTP(phoneNumber, otp, name, photoUrl);
-    if (verifiedUser) {
-      setUser(verifiedUser);
+    setAuthError(null);
+    try {
+      const session = await AuthService.verifyOTP(phoneNumber, otp, name, photoUrl);
+      setUser(session.user);
+      setProfileSynced(session.profileSynced);
+      setOtpStatus(null);
       return true;
+    } catch (error) {
+      return handleFailure(error, phoneNumber);
     }
-    return false;
   };
 
   const logout = async () => {
     await AuthService.logout();
     setUser(null);
+    setProfileSynced(true);
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, login, logout, sendOTP, updateUser }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        loading,
+        profileSynced,
+        syncProfile,
+        authError,
+        otpStatus,
+        login,
+        logout,
+        sendOTP,
+        refreshOtpStatus,
+        clearAuthError,
+        updateUser,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
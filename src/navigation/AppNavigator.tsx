@@ -8,7 +8,7 @@ import { CameraScreen } from '../screens/CameraScreen';
 import { QRScannerScreen } from '../screens/QRScannerScreen';
 import { ProfileScreen } from '../screens/ProfileScreen';
 import { CO2SummaryScreen } from '../screens/CO2SummaryScreen';
-import { Bill } from '../types';
+import { BillDetailScreen } from '../screens/BillDetailScreen';
 
 export type RootStackParamList = {
   Login: undefined;
@@ -16,7 +16,8 @@ export type RootStackParamList = {
   Camera: undefined;
   QRScanner: undefined;
   Profile: undefined;
-  CO2Summary: { bills: Bill[] };
+  CO2Summary: { from?: string; to?: string } | undefined;
+  BillDetail: { billId: string };
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -76,6 +77,14 @@ export const AppNavigator: React.FC = () => {
                 title: 'Scan QR Code',
               }}
             />
+            <Stack.Screen
+              name="BillDetail"
+              component={BillDetailScreen}
+              options={{
+                headerShown: true,
+                title: 'Bill Details',
+              }}
+            />
             <Stack.Screen
               name="CO2Summary"
               component={CO2SummaryScreen}
@@ -0,0 +1,235 @@
+import {
+  collection,
+  doc,
+  setDoc,
+  updateDoc,
+  getDoc,
+  getDocs,
+  getAggregateFromServer,
+  count,
+  sum,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  writeBatch,
+  deleteField,
+  DocumentData,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  Timestamp
+} from 'firebase/firestore';
+import { getFirebase } from '../services/firebase';
+import {
+  Bill,
+  BillDateRange,
+  BillHistoryEntry,
+  BillImages,
+  BillPage,
+  BillPageCursor,
+  BillPatch,
+  BillRepository,
+  BillTotals,
+  User,
+  UserRepository,
+} from '../types';
+
+const BILLS_COLLECTION = 'bills';
+const HISTORY_COLLECTION = 'history';
+const USERS_COLLECTION = 'users';
+// Firestore's limit on writes per batch
+const MAX_BATCH_WRITES = 500;
+
+export class FirestoreBillRepository implements BillRepository {
+  async create(bill: Omit<Bill, 'id' | 'createdAt'>, id?: string): Promise<string> {
+    const { db } = getFirebase();
+    const billRef = id ? doc(db, BILLS_COLLECTION, id) : doc(collection(db, BILLS_COLLECTION));
+    if (id && (await getDoc(billRef)).exists()) {
+      return id;
+    }
+    // Firestore rejects undefined values, so optional fields the caller left unset are dropped
+    const definedFields = Object.fromEntries(Object.entries(bill).filter(([, value]) => value !== undefined));
+    await setDoc(billRef, { ...definedFields, createdAt: Timestamp.now() });
+    return billRef.id;
+  }
+
+  async get(billId: string): Promise<Bill | null> {
+    const snapshot = await getDoc(doc(getFirebase().db, BILLS_COLLECTION, billId));
+    return snapshot.exists() ? this.toBill(snapshot.id, snapshot.data()) : null;
+  }
+
+  // Ordering by date on the server needs the (userId, date) index in firestore.indexes.json
+  async listByUser(userId: string, range?: BillDateRange): Promise<Bill[]> {
+    const q = query(collection(getFirebase().db, BILLS_COLLECTION), ...this.userBillsConstraints(userId, range));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((billDoc) => this.toBill(billDoc.id, billDoc.data()));
+  }
+
+  async pageByUser(
+    userId: string,
+    options: { pageSize: number; range?: BillDateRange; after?: BillPageCursor | null },
+  ): Promise<BillPage> {
+    const q = query(
+      collection(getFirebase().db, BILLS_COLLECTION),
+      ...this.userBillsConstraints(userId, options.range),
+      ...(options.after ? [startAfter(options.after as QueryDocumentSnapshot<DocumentData>)] : []),
+      limit(options.pageSize)
+    );
+    const docs = (await getDocs(q)).docs;
+    return {
+      bills: docs.map((billDoc) => this.toBill(billDoc.id, billDoc.data())),
+      cursor: docs.length === options.pageSize ? docs[docs.length - 1] : null,
+    };
+  }
+
+  // Aggregate queries are billed per batch of index entries, not per bill. Soft-deleted bills cannot be
+  // filtered out (live bills have no deletedAt), so their totals are subtracted. The inequality filters
+  // need the composite indexes in firestore.indexes.json.
+  async totalsByUser(userId: string, range?: BillDateRange): Promise<BillTotals> {
+    const filters = this.userBillsFilters(userId, range);
+    const deleted = where('deletedAt', '!=', null);
+    const [all, removed] = await Promise.all([this.totals(filters), this.totals([...filters, deleted])]);
+    return {
+      count: all.count - removed.count,
+      amount: all.amount - removed.amount,
+      distanceKm: all.distanceKm - removed.distanceKm,
+      billsWithDistance: all.billsWithDistance - removed.billsWithDistance,
+      co2SavedGrams: all.co2SavedGrams - removed.co2SavedGrams,
+    };
+  }
+
+  async listByFingerprint(fingerprint: string): Promise<Bill[]> {
+    const q = query(collection(getFirebase().db, BILLS_COLLECTION), where('fingerprint', '==', fingerprint));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((billDoc) => this.toBill(billDoc.id, billDoc.data()));
+  }
+
+  // History entries are only ever added, in the same batch as the change they describe
+  async update(billId: string, patch: BillPatch, entry: Omit<BillHistoryEntry, 'id' | 'createdAt'>): Promise<void> {
+    const { db } = getFirebase();
+    const batch = writeBatch(db);
+    batch.update(
+      doc(db, BILLS_COLLECTION, billId),
+      Object.fromEntries(
+        Object.entries(patch)
+          .filter(([, value]) => value !== undefined)
+          .map(([field, value]) => [field, value === null ? deleteField() : value]),
+      ),
+    );
+    batch.set(doc(collection(db, BILLS_COLLECTION, billId, HISTORY_COLLECTION)), {
+      ...entry,
+      createdAt: Timestamp.now(),
+    });
+    await batch.commit();
+  }
+
+  async attachImages(billId: string, images: BillImages): Promise<void> {
+    await updateDoc(doc(getFirebase().db, BILLS_COLLECTION, billId), { ...images });
+  }
+
+  async getHistory(billId: string): Promise<BillHistoryEntry[]> {
+    const q = query(
+      collection(getFirebase().db, BILLS_COLLECTION, billId, HISTORY_COLLECTION),
+      orderBy('createdAt', 'desc')
+    );
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((entryDoc) => ({
+      id: entryDoc.id,
+      action: entryDoc.data().action,
+      userId: entryDoc.data().userId,
+      changes: entryDoc.data().changes ?? {},
+      createdAt: entryDoc.data().createdAt.toDate(),
+    }));
+  }
+
+  async reassignUser(fromUserId: string, toUserId: string): Promise<number> {
+    const { db } = getFirebase();
+    const q = query(collection(db, BILLS_COLLECTION), where('userId', '==', fromUserId));
+    const docs = (await getDocs(q)).docs;
+    for (let start = 0; start < docs.length; start += MAX_BATCH_WRITES) {
+      const batch = writeBatch(db);
+      docs.slice(start, start + MAX_BATCH_WRITES).forEach((billDoc) => batch.update(billDoc.ref, { userId: toUserId }));
+      await batch.commit();
+    }
+    return docs.length;
+  }
+
+  private userBillsConstraints(userId: string, range?: BillDateRange): QueryConstraint[] {
+    return [...this.userBillsFilters(userId, range), orderBy('date', 'desc')];
+  }
+
+  private userBillsFilters(userId: string, range?: BillDateRange): QueryConstraint[] {
+    return [
+      where('userId', '==', userId),
+      ...(range?.from ? [where('date', '>=', Timestamp.fromDate(range.from))] : []),
+      ...(range?.to ? [where('date', '<=', Timestamp.fromDate(range.to))] : []),
+    ];
+  }
+
+  // Sums skip bills without the field; bills with a distance are counted by a second query
+  private async totals(filters: QueryConstraint[]): Promise<BillTotals> {
+    const bills = collection(getFirebase().db, BILLS_COLLECTION);
+    const [sums, measured] = await Promise.all([
+      getAggregateFromServer(query(bills, ...filters), {
+        count: count(),
+        amount: sum('amount'),
+        distanceKm: sum('distanceKm'),
+        co2SavedGrams: sum('co2SavedGrams'),
+      }),
+      getAggregateFromServer(query(bills, ...filters, where('distanceKm', '>=', 0)), { count: count() }),
+    ]);
+    return { ...sums.data(), billsWithDistance: measured.data().count };
+  }
+
+  private toBill(id: string, data: DocumentData): Bill {
+    return {
+      id,
+      ...data,
+      date: data.date.toDate(),
+      createdAt: data.createdAt.toDate(),
+      ...(data.updatedAt ? { updatedAt: data.updatedAt.toDate() } : {}),
+      ...(data.deletedAt ? { deletedAt: data.deletedAt.toDate() } : {}),
+    } as Bill;
+  }
+}
+
+export class FirestoreUserRepository implements UserRepository {
+  async get(userId: string): Promise<User | null> {
+    const snapshot = await getDoc(doc(getFirebase().db, USERS_COLLECTION, userId));
+    return snapshot.exists() ? this.toUser(snapshot.id, snapshot.data()) : null;
+  }
+
+  async findByPhoneNumber(phoneNumber: string): Promise<User | null> {
+    const q = query(collection(getFirebase().db, USERS_COLLECTION), where('phoneNumber', '==', phoneNumber));
+    const querySnapshot = await getDocs(q);
+    if (querySnapshot.empty) return null;
+    const userDoc = querySnapshot.docs[0];
+    return this.toUser(userDoc.id, userDoc.data());
+  }
+
+  async create(userId: string, user: Omit<User, 'id'>): Promise<User> {
+    const definedFields = Object.fromEntries(Object.entries(user).filter(([, value]) => value !== undefined));
+    await setDoc(doc(getFirebase().db, USERS_COLLECTION, userId), definedFields);
+    return { id: userId, ...user };
+  }
+
+  async update(userId: string, data: Partial<Pick<User, 'name' | 'photoUrl'>>): Promise<void> {
+    await setDoc(doc(getFirebase().db, USERS_COLLECTION, userId), data, { merge: true });
+  }
+
+  async markMigrated(userId: string, toUserId: string): Promise<void> {
+    await setDoc(doc(getFirebase().db, USERS_COLLECTION, userId), { migratedTo: toUserId }, { merge: true });
+  }
+
+  private toUser(id: string, data: DocumentData): User {
+    return {
+      id,
+      phoneNumber: data.phoneNumber,
+      name: data.name,
+      photoUrl: data.photoUrl,
+      createdAt: data.createdAt.toDate(),
+      ...(data.migratedTo ? { migratedTo: data.migratedTo } : {}),
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { BillRepository, UserRepository } from '../types';
+import { FirestoreBillRepository, FirestoreUserRepository } from './firestore';
+import { MemoryBillRepository, MemoryUserRepository } from './memory';
+
+// 'firebase' also covers the emulator suite (see EXPO_PUBLIC_FIREBASE_EMULATOR_HOST in firebase.ts)
+export type BackendKind = 'firebase' | 'memory';
+
+interface Backend {
+  kind: BackendKind;
+  bills: BillRepository;
+  users: UserRepository;
+}
+
+export class Repositories {
+  private static backend: Backend | null = null;
+
+  // Pick the storage backend; without an argument it comes from EXPO_PUBLIC_BACKEND (default 'firebase')
+  static configure(kind: BackendKind = Repositories.kindFromEnv()): void {
+    Repositories.backend =
+      kind === 'memory'
+        ? { kind, bills: new MemoryBillRepository(), users: new MemoryUserRepository() }
+        : { kind, bills: new FirestoreBillRepository(), users: new FirestoreUserRepository() };
+    console.log(`🗄️ Using ${kind} backend`);
+  }
+
+  // Plug in custom repositories, e.g. seeded in-memory ones
+  static use(bills: BillRepository, users: UserRepository, kind: BackendKind = 'memory'): void {
+    Repositories.backend = { kind, bills, users };
+  }
+
+  static get kind(): BackendKind {
+    return Repositories.current().kind;
+  }
+
+  static get bills(): BillRepository {
+    return Repositories.current().bills;
+  }
+
+  static get users(): UserRepository {
+    return Repositories.current().users;
+  }
+
+  private static current(): Backend {
+    if (!Repositories.backend) {
+      Repositories.configure();
+    }
+    return Repositories.backend!;
+  }
+
+  private static kindFromEnv(): BackendKind {
+    const kind = process.env.EXPO_PUBLIC_BACKEND;
+    if (kind && kind !== 'firebase' && kind !== 'memory') {
+      console.warn(`⚠️ Unknown EXPO_PUBLIC_BACKEND "${kind}", using firebase`);
+    }
+    return kind === 'memory' ? 'memory' : 'firebase';
+  }
+}
@@ -0,0 +1,167 @@
+import {
+  Bill,
+  BillDateRange,
+  BillHistoryEntry,
+  BillImages,
+  BillPage,
+  BillPageCursor,
+  BillPatch,
+  BillRepository,
+  BillTotals,
+  User,
+  UserRepository,
+} from '../types';
+
+let nextId = 1;
+const generateId = (prefix: string) => `${prefix}_${Date.now().toString(36)}_${nextId++}`;
+
+// Stored objects are copied in and out so callers cannot change them in place
+const copyBill = (bill: Bill): Bill => ({ ...bill });
+
+// Local stand-in for Firestore: same ordering and semantics, nothing leaves the process
+export class MemoryBillRepository implements BillRepository {
+  private bills = new Map<string, Bill>();
+  private history = new Map<string, BillHistoryEntry[]>();
+
+  constructor(seed: Bill[] = []) {
+    seed.forEach((bill) => this.bills.set(bill.id, copyBill(bill)));
+  }
+
+  async create(bill: Omit<Bill, 'id' | 'createdAt'>, id?: string): Promise<string> {
+    if (id && this.bills.has(id)) {
+      return id;
+    }
+    const billId = id ?? generateId('bill');
+    const definedFields = Object.fromEntries(Object.entries(bill).filter(([, value]) => value !== undefined));
+    this.bills.set(billId, { ...definedFields, id: billId, createdAt: new Date() } as Bill);
+    return billId;
+  }
+
+  async get(billId: string): Promise<Bill | null> {
+    const bill = this.bills.get(billId);
+    return bill ? copyBill(bill) : null;
+  }
+
+  async listByUser(userId: string, range?: BillDateRange): Promise<Bill[]> {
+    return this.sorted(
+      [...this.bills.values()].filter(
+        (bill) =>
+          bill.userId === userId &&
+          (!range?.from || bill.date >= range.from) &&
+          (!range?.to || bill.date <= range.to),
+      ),
+    );
+  }
+
+  // The cursor is the id of the last bill on the previous page
+  async pageByUser(
+    userId: string,
+    options: { pageSize: number; range?: BillDateRange; after?: BillPageCursor | null },
+  ): Promise<BillPage> {
+    const all = await this.listByUser(userId, options.range);
+    const start = options.after ? all.findIndex((bill) => bill.id === options.after) + 1 : 0;
+    const bills = all.slice(start, start + options.pageSize);
+    return {
+      bills,
+      cursor: bills.length === options.pageSize ? bills[bills.length - 1].id : null,
+    };
+  }
+
+  async totalsByUser(userId: string, range?: BillDateRange): Promise<BillTotals> {
+    const bills = (await this.listByUser(userId, range)).filter((bill) => !bill.deletedAt);
+    const measured = bills.filter((bill) => bill.distanceKm !== undefined);
+    return {
+      count: bills.length,
+      amount: bills.reduce((total, bill) => total + bill.amount, 0),
+      distanceKm: measured.reduce((total, bill) => total + (bill.distanceKm ?? 0), 0),
+      billsWithDistance: measured.length,
+      co2SavedGrams: bills.reduce((total, bill) => total + (bill.co2SavedGrams ?? 0), 0),
+    };
+  }
+
+  async listByFingerprint(fingerprint: string): Promise<Bill[]> {
+    return [...this.bills.values()].filter((bill) => bill.fingerprint === fingerprint).map(copyBill);
+  }
+
+  async update(billId: string, patch: BillPatch, entry: Omit<BillHistoryEntry, 'id' | 'createdAt'>): Promise<void> {
+    const current = this.bills.get(billId);
+    if (!current) {
+      throw new Error(`Bill ${billId} not found`);
+    }
+
+    const next: Record<string, unknown> = { ...current };
+    Object.entries(patch).forEach(([field, value]) => {
+      if (value === null) {
+        delete next[field];
+      } else if (value !== undefined) {
+        next[field] = value;
+      }
+    });
+    this.bills.set(billId, next as unknown as Bill);
+
+    const entries = this.history.get(billId) ?? [];
+    this.history.set(billId, [{ ...entry, id: generateId('history'), createdAt: new Date() }, ...entries]);
+  }
+
+  async attachImages(billId: string, images: BillImages): Promise<void> {
+    const current = this.bills.get(billId);
+    if (!current) {
+      throw new Error(`Bill ${billId} not found`);
+    }
+    this.bills.set(billId, { ...current, ...images });
+  }
+
+  async getHistory(billId: string): Promise<BillHistoryEntry[]> {
+    return [...(this.history.get(billId) ?? [])];
+  }
+
+  async reassignUser(fromUserId: string, toUserId: string): Promise<number> {
+    const owned = [...this.bills.values()].filter((bill) => bill.userId === fromUserId);
+    owned.forEach((bill) => this.bills.set(bill.id, { ...bill, userId: toUserId }));
+    return owned.length;
+  }
+
+  // Newest ticket first, matching the Firestore query
+  private sorted(bills: Bill[]): Bill[] {
+    return bills
+      .sort((a, b) => b.date.getTime() - a.date.getTime() || a.id.localeCompare(b.id))
+      .map(copyBill);
+  }
+}
+
+export class MemoryUserRepository implements UserRepository {
+  private users = new Map<string, User>();
+
+  constructor(seed: User[] = []) {
+    seed.forEach((user) => this.users.set(user.id, { ...user }));
+  }
+
+  async get(userId: string): Promise<User | null> {
+    const user = this.users.get(userId);
+    return user ? { ...user } : null;
+  }
+
+  async findByPhoneNumber(phoneNumber: string): Promise<User | null> {
+    const user = [...this.users.values()].find((candidate) => candidate.phoneNumber === phoneNumber);
+    return user ? { ...user } : null;
+  }
+
+  async create(userId: string, user: Omit<User, 'id'>): Promise<User> {
+    this.users.set(userId, { id: userId, ...user });
+    return { id: userId, ...user };
+  }
+
+  async update(userId: string, data: Partial<Pick<User, 'name' | 'photoUrl'>>): Promise<void> {
+    const current = this.users.get(userId);
+    if (current) {
+      this.users.set(userId, { ...current, ...data });
+    }
+  }
+
+  async markMigrated(userId: string, toUserId: string): Promise<void> {
+    const current = this.users.get(userId);
+    if (current) {
+      this.users.set(userId, { ...current, migratedTo: toUserId });
+    }
+  }
+}
@@ -0,0 +1,536 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+  Share,
+} from 'react-native';
+import { useAuth } from '../context/AuthContext';
+import { BillService } from '../services/bills';
+import { Co2Service, CO2_BASELINE_LABELS } from '../services/co2';
+import { OCRService } from '../services/ocr';
+import { BillReviewForm } from '../components/BillReviewForm';
+import { SourceMismatchNotice } from '../components/SourceMismatchNotice';
+import { ZoomableImage } from '../components/ZoomableImage';
+import { BillForm, BillFormField, BillFormValues } from '../utils/billForm';
+import { Bill, BillField, BillFieldConfidence, BillHistoryEntry } from '../types';
+
+interface BillDetailScreenProps {
+  route: {
+    params: {
+      billId: string;
+    };
+  };
+  navigation: any;
+}
+
+const FIELD_LABELS: Record<BillField, string> = {
+  billNumber: 'Bill number',
+  amount: 'Fare',
+  date: 'Date',
+  from: 'From',
+  to: 'To',
+  co2Saved: 'Printed CO2',
+};
+
+const ACTION_LABELS: Record<BillHistoryEntry['action'], string> = {
+  update: 'Edited',
+  delete: 'Deleted',
+  restore: 'Restored',
+};
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// History stores dates as ISO strings; show them the way the rest of the screen does
+const formatHistoryValue = (field: string, value: string | number | null) => {
+  if (value === null) return '—';
+  if (field === 'date' && typeof value === 'string') return formatDateTime(new Date(value));
+  if (field === 'amount') return `₹${value}`;
+  return String(value);
+};
+
+export const BillDetailScreen: React.FC<BillDetailScreenProps> = ({ route, navigation }) => {
+  const { billId } = route.params;
+  const { user } = useAuth();
+  const [bill, setBill] = useState<Bill | null>(null);
+  const [history, setHistory] = useState<BillHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formValues, setFormValues] = useState<BillFormValues | null>(null);
+  // Confidence of re-parsed values, highlighted in the form like a fresh scan
+  const [formConfidence, setFormConfidence] = useState<BillFieldConfidence | undefined>(undefined);
+  const [showRawText, setShowRawText] = useState(false);
+
+  const loadBill = useCallback(async () => {
+    try {
+      const [loadedBill, loadedHistory] = await Promise.all([
+        BillService.getBill(billId),
+        BillService.getBillHistory(billId),
+      ]);
+      setBill(loadedBill);
+      setHistory(loadedHistory);
+    } catch (error) {
+      console.error('Error loading bill:', error);
+      Alert.alert('Error', 'Failed to load bill');
+    } finally {
+      setLoading(false);
+    }
+  }, [billId]);
+
+  useEffect(() => {
+    loadBill();
+  }, [loadBill]);
+
+  const validation = useMemo(() => (formValues ? BillForm.validate(formValues) : null), [formValues]);
+
+  const updateField = (field: BillFormField, value: string) => {
+    setFormValues((current) => (current ? { ...current, [field]: value } : current));
+  };
+
+  const saveEdits = async () => {
+    if (!bill || !formValues || !validation || !user) return;
+
+    if (!BillForm.isValid(validation)) {
+      Alert.alert('Check the details', Object.values(validation.errors).join('\n'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const changes = await BillService.updateBill(bill.id, BillForm.toBill(formValues), user.id);
+      cancelEditing();
+      if (Object.keys(changes).length > 0) {
+        await loadBill();
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update bill');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = () => {
+    if (!bill) return;
+    setFormConfidence(undefined);
+    setFormValues(BillForm.fromBill(bill));
+  };
+
+  const cancelEditing = () => {
+    setFormValues(null);
+    setFormConfidence(undefined);
+  };
+
+  // Run the current parsers over the stored OCR text and QR payload and review the result as an edit
+  const reparse = () => {
+    if (!bill) return;
+    const reparsed = OCRService.reparse(bill.rawText, bill.qrPayload);
+    if (!reparsed) {
+      Alert.alert('Nothing to re-parse', 'This bill has no stored OCR text or QR payload.');
+      return;
+    }
+    setFormConfidence(reparsed.fieldConfidence);
+    setFormValues(BillForm.fromBill({ ...bill, ...reparsed }));
+  };
+
+  const share = async () => {
+    if (!bill) return;
+    const lines = [
+      `Pune Metro ticket #${bill.billNumber}`,
+      formatDateTime(bill.date),
+      bill.from && bill.to
+        ? `${bill.from} → ${bill.to}${bill.distanceKm !== undefined ? ` (${bill.distanceKm} km)` : ''}`
+        : null,
+      `Fare: ₹${bill.amount.toFixed(2)}`,
+      `CO2 saved: ${Co2Service.format(Co2Service.gramsForBill(bill))}`,
+    ];
+    try {
+      await Share.share({
+        message: lines.filter(Boolean).join('\n'),
+        ...(bill.imageUrl ? { url: bill.imageUrl } : {}),
+      });
+    } catch (error) {
+      console.error('Error sharing bill:', error);
+    }
+  };
+
+  const confirmDelete = () => {
+    if (!bill || !user) return;
+
+    Alert.alert('Delete bill', 'This bill will be hidden from your bills and totals. You can restore it later.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          setSaving(true);
+          try {
+            await BillService.deleteBill(bill.id, user.id);
+            await loadBill();
+          } catch (error) {
+            Alert.alert('Error', 'Failed to delete bill');
+          } finally {
+            setSaving(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const restore = async () => {
+    if (!bill || !user) return;
+
+    setSaving(true);
+    try {
+      await BillService.restoreBill(bill.id, user.id);
+      await loadBill();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to restore bill');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centerContent}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  if (!bill) {
+    return (
+      <View style={styles.centerContent}>
+        <Text style={styles.emptyText}>This bill could not be found.</Text>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={{ marginTop: 20 }}>
+          <Text style={{ color: '#007AFF', fontSize: 16 }}>Go Back</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.content}>
+        {bill.imageUrl ? (
+          <ZoomableImage uri={bill.imageUrl} style={styles.image} />
+        ) : (
+          <View style={[styles.image, styles.imagePlaceholder]}>
+            <Text style={styles.placeholderText}>📄 No ticket image stored</Text>
+          </View>
+        )}
+
+        {bill.deletedAt && (
+          <View style={styles.deletedBanner}>
+            <Text style={styles.deletedText}>Deleted on {formatDateTime(bill.deletedAt)}</Text>
+            <TouchableOpacity onPress={restore} disabled={saving}>
+              <Text style={styles.restoreText}>Restore</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {formValues && validation ? (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Edit Bill</Text>
+            <BillReviewForm
+              values={formValues}
+              validation={validation}
+              fieldConfidence={formConfidence}
+              onChange={updateField}
+            />
+            <View style={styles.actionButtons}>
+              <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={cancelEditing}>
+                <Text style={styles.buttonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.button, styles.saveButton, saving && styles.buttonDisabled]}
+                onPress={saveEdits}
+                disabled={saving}
+              >
+                <Text style={styles.buttonText}>{saving ? 'Saving...' : 'Save Changes'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <View style={styles.card}>
+            <Text style={styles.billNumber}>Bill #{bill.billNumber}</Text>
+            <Text style={styles.amount}>₹{bill.amount.toFixed(2)}</Text>
+            <Text style={styles.detailText}>{formatDateTime(bill.date)}</Text>
+            {bill.from && bill.to ? (
+              <Text style={styles.detailText}>
+                {bill.from} → {bill.to}
+              </Text>
+            ) : null}
+            <Text style={styles.detailText}>
+              Distance: {bill.distanceKm !== undefined ? `${bill.distanceKm} km` : 'unknown (stations not recognised)'}
+            </Text>
+            <Text style={styles.co2Text}>
+              🌱 {Co2Service.format(Co2Service.gramsForBill(bill))} CO2 saved
+              {bill.co2BaselineMode ? ` vs ${CO2_BASELINE_LABELS[bill.co2BaselineMode].toLowerCase()}` : ''}
+            </Text>
+            {bill.co2Saved ? <Text style={styles.detailText}>Printed on ticket: {bill.co2Saved}</Text> : null}
+
+            {!bill.deletedAt && (
+              <View style={styles.actionButtons}>
+                <TouchableOpacity
+                  style={[styles.button, styles.secondaryButton]}
+                  onPress={startEditing}
+                  disabled={saving}
+                >
+                  <Text style={styles.buttonText}>Edit</Text>
+                </TouchableOpacity>
+                {(bill.rawText || bill.qrPayload) && (
+                  <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={reparse} disabled={saving}>
+                    <Text style={styles.buttonText}>Re-parse</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity style={[styles.button, styles.shareButton]} onPress={share}>
+                  <Text style={styles.buttonText}>Share</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, styles.deleteButton, saving && styles.buttonDisabled]}
+                  onPress={confirmDelete}
+                  disabled={saving}
+                >
+                  <Text style={styles.buttonText}>Delete</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        )}
+
+        {bill.extractedText || bill.rawText ? (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Text style={styles.cardTitle}>Ticket Text</Text>
+              {bill.rawText ? (
+                <TouchableOpacity onPress={() => setShowRawText((prev) => !prev)}>
+                  <Text style={styles.linkText}>{showRawText ? 'Show cleaned' : 'Show raw'}</Text>
+                </TouchableOpacity>
+              ) : null}
+            </View>
+            <Text style={styles.monoText} selectable>
+              {showRawText ? bill.rawText : bill.extractedText}
+            </Text>
+          </View>
+        ) : null}
+
+        {bill.qrPayload ? (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>QR Code</Text>
+            <Text style={styles.monoText} selectable>{bill.qrPayload}</Text>
+            {bill.qrDiagnostics && (
+              <>
+                <Text style={styles.historyText}>
+                  Format: {bill.qrDiagnostics.format ?? 'not recognised'} · decoded{' '}
+                  {bill.qrDiagnostics.fields.length > 0 ? bill.qrDiagnostics.fields.join(', ') : 'nothing'}
+                </Text>
+                {bill.qrDiagnostics.unknownStationCodes.length > 0 && (
+                  <Text style={styles.warningText}>
+                    Unknown station codes: {bill.qrDiagnostics.unknownStationCodes.join(', ')}
+                  </Text>
+                )}
+                {bill.qrDiagnostics.warnings.map((warning) => (
+                  <Text key={warning} style={styles.warningText}>⚠️ {warning}</Text>
+                ))}
+              </>
+            )}
+          </View>
+        ) : null}
+
+        {bill.fieldConfidence || bill.sourceMismatches?.length || bill.userEdits ? (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Parsing Diagnostics</Text>
+            {bill.sourceMismatches && <SourceMismatchNotice mismatches={bill.sourceMismatches} />}
+            {Object.entries(bill.fieldConfidence ?? {}).map(([field, score]) => (
+              <Text key={field} style={styles.historyText}>
+                {FIELD_LABELS[field as BillField] ?? field}: {Math.round(score.confidence * 100)}%
+                {score.source ? ` from ${score.source.toUpperCase()}` : ''}
+                {score.corrections.length > 0 ? ` · ${score.corrections.join(' · ')}` : ''}
+              </Text>
+            ))}
+            {Object.entries(bill.userEdits ?? {}).map(([field, edit]) => (
+              <Text key={field} style={styles.historyText}>
+                Corrected at save — {FIELD_LABELS[field as BillField] ?? field}:{' '}
+                {formatHistoryValue(field, edit.original)} → {formatHistoryValue(field, edit.edited)}
+              </Text>
+            ))}
+          </View>
+        ) : null}
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>History</Text>
+          <Text style={styles.historyText}>Saved {formatDateTime(bill.createdAt)}</Text>
+          {history.map((entry) => (
+            <View key={entry.id} style={styles.historyEntry}>
+              <Text style={styles.historyTitle}>
+                {ACTION_LABELS[entry.action]} · {formatDateTime(entry.createdAt)}
+              </Text>
+              {Object.entries(entry.changes).map(([field, change]) => (
+                <Text key={field} style={styles.historyText}>
+                  {FIELD_LABELS[field as BillField] ?? field}: {formatHistoryValue(field, change.original)} →{' '}
+                  {formatHistoryValue(field, change.edited)}
+                </Text>
+              ))}
+            </View>
+          ))}
+        </View>
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  content: {
+    padding: 16,
+    gap: 16,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  image: {
+    height: 300,
+    borderRadius: 12,
+  },
+  imagePlaceholder: {
+    backgroundColor: '#e9e9ee',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  placeholderText: {
+    fontSize: 15,
+    color: '#888',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    gap: 6,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    color: '#000',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#007AFF',
+  },
+  monoText: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+    color: '#333',
+  },
+  warningText: {
+    fontSize: 13,
+    color: '#FF9500',
+  },
+  billNumber: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+  amount: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#34C759',
+  },
+  detailText: {
+    fontSize: 15,
+    color: '#666',
+  },
+  co2Text: {
+    fontSize: 15,
+    color: '#2E7D32',
+    fontWeight: '500',
+  },
+  deletedBanner: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#FFF3F2',
+    borderColor: '#FF3B30',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+  },
+  deletedText: {
+    fontSize: 14,
+    color: '#FF3B30',
+  },
+  restoreText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  button: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    backgroundColor: '#8E8E93',
+  },
+  saveButton: {
+    backgroundColor: '#34C759',
+  },
+  shareButton: {
+    backgroundColor: '#007AFF',
+  },
+  deleteButton: {
+    backgroundColor: '#FF3B30',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  historyEntry: {
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingTop: 8,
+    marginTop: 4,
+    gap: 2,
+  },
+  historyTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  historyText: {
+    fontSize: 13,
+    color: '#666',
+  },
+});
@@ -1,31 +1,53 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { View, Text, StyleSheet, Dimensions, ScrollView, TouchableOpacity } from 'react-native';
 import { LineChart } from 'react-native-chart-kit';
-import { Bill } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { Co2Service, CO2_BASELINE_LABELS } from '../services/co2';
+import { BillService } from '../services/bills';
+import { Bill, Co2BaselineMode } from '../types';
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
 
-// Define a type for bills passed via navigation where dates might be strings
-interface SerializableBill extends Omit<Bill, 'date' | 'createdAt'> {
-  date: string | Date;
-  createdAt: string | Date;
-}
-
 interface CO2SummaryScreenProps {
   route: {
-    params: {
-      bills: SerializableBill[];
+    // Optional date range as ISO strings, matching the range selected on the home screen
+    params?: {
+      from?: string;
+      to?: string;
     };
   };
   navigation: any;
 }
 
 export const CO2SummaryScreen: React.FC<CO2SummaryScreenProps> = ({ route, navigation }) => {
-  const { bills } = route.params;
+  const { user } = useAuth();
+  const from = route.params?.from;
+  const to = route.params?.to;
+  const [bills, setBills] = useState<Bill[]>([]);
+  const [baselineMode, setBaselineMode] = useState<Co2BaselineMode>(Co2Service.DEFAULT_BASELINE);
+
+  useEffect(() => {
+    Co2Service.getBaselineMode().then(setBaselineMode);
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    const range = { from: from ? new Date(from) : undefined, to: to ? new Date(to) : undefined };
+    BillService.getUserBills(user.id, false, range)
+      .then(setBills)
+      .catch((error) => console.error('Error loading bills for CO2 summary:', error));
+  }, [user, from, to]);
+
+  const changeBaselineMode = (mode: Co2BaselineMode) => {
+    setBaselineMode(mode);
+    Co2Service.setBaselineMode(mode).catch((error) => console.error('Error saving CO2 baseline mode:', error));
+  };
 
   const chartData = useMemo(() => {
-    // 1. Filter bills with CO2 data
-    const billsWithCo2 = bills.filter(b => b.co2Saved);
+    // 1. Compute savings per bill against the selected baseline and keep bills that saved something
+    const billsWithCo2 = bills
+      .map(bill => ({ date: bill.date, grams: Co2Service.gramsForBill(bill, baselineMode) }))
+      .filter(entry => entry.grams > 0);
 
     // 2. Sort by date ascending
     billsWithCo2.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
@@ -35,14 +57,9 @@ export const CO2SummaryScreen: React.FC<CO2SummaryScreenProps> = ({ route, navig
     // Let's group by day.
     const groupedByDate: { [key: string]: number } = {};
     
-    billsWithCo2.forEach(bill => {
-      if (!bill.co2Saved) return;
-      const dateStr = new Date(bill.date).toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit' });
-      
-      const match = bill.co2Saved.match(/(\d+(?:\.\d+)?)/);
-      const val = match ? parseFloat(match[1]) : 0;
-      
-      groupedByDate[dateStr] = (groupedByDate[dateStr] || 0) + val;
+    billsWithCo2.forEach(entry => {
+      const dateStr = new Date(entry.date).toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit' });
+      groupedByDate[dateStr] = (groupedByDate[dateStr] || 0) + entry.grams;
     });
 
     const labels = Object.keys(groupedByDate);
@@ -59,17 +76,11 @@ export const CO2SummaryScreen: React.FC<CO2SummaryScreenProps> = ({ route, navig
         },
       ],
     };
-  }, [bills]);
+  }, [bills, baselineMode]);
 
   const totalSaved = useMemo(() => {
-    return bills.reduce((sum, bill) => {
-      if (bill.co2Saved) {
-        const match = bill.co2Saved.match(/(\d+(?:\.\d+)?)/);
-        return sum + (match ? parseFloat(match[1]) : 0);
-      }
-      return sum;
-    }, 0);
-  }, [bills]);
+    return bills.reduce((sum, bill) => sum + Co2Service.gramsForBill(bill, baselineMode), 0);
+  }, [bills, baselineMode]);
 
   return (
     <ScrollView style={styles.container}>
@@ -82,8 +93,24 @@ export const CO2SummaryScreen: React.FC<CO2SummaryScreenProps> = ({ route, navig
 
       <View style={styles.summaryCard}>
         <Text style={styles.summaryLabel}>Total CO2 Saved</Text>
-        <Text style={styles.summaryValue}>{totalSaved.toFixed(2)} g</Text>
-        <Text style={styles.summarySubtext}>Keep up the good work! 🌱</Text>
+        <Text style={styles.summaryValue}>{Co2Service.format(totalSaved)}</Text>
+        <Text style={styles.summarySubtext}>
+          Compared to travelling by {CO2_BASELINE_LABELS[baselineMode].toLowerCase()} 🌱
+        </Text>
+      </View>
+
+      <View style={styles.baselineToggle}>
+        {(Object.keys(CO2_BASELINE_LABELS) as Co2BaselineMode[]).map((mode) => (
+          <TouchableOpacity
+            key={mode}
+            style={[styles.baselineOption, baselineMode === mode && styles.baselineOptionActive]}
+            onPress={() => changeBaselineMode(mode)}
+          >
+            <Text style={[styles.baselineOptionText, baselineMode === mode && styles.baselineOptionTextActive]}>
+              {CO2_BASELINE_LABELS[mode]}
+            </Text>
+          </TouchableOpacity>
+        ))}
       </View>
 
       {chartData.labels.length > 0 ? (
@@ -97,7 +124,7 @@ export const CO2SummaryScreen: React.FC<CO2SummaryScreenProps> = ({ route, navig
               backgroundColor: '#ffffff',
               backgroundGradientFrom: '#ffffff',
               backgroundGradientTo: '#ffffff',
-              decimalPlaces: 2,
+              decimalPlaces: 0,
               color: (opacity = 1) => `rgba(46, 125, 50, ${opacity})`, // Green color
               labelColor: (opacity = 1) => `rgba(0, 0, 0, ${opacity})`,
               style: {
@@ -171,6 +198,30 @@ const styles = StyleSheet.create({
     color: 'rgba(255, 255, 255, 0.9)',
     fontSize: 14,
   },
+  baselineToggle: {
+    flexDirection: 'row',
+    marginHorizontal: 16,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 4,
+  },
+  baselineOption: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  baselineOptionActive: {
+    backgroundColor: '#2E7D32',
+  },
+  baselineOptionText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  baselineOptionTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
   chartContainer: {
     margin: 16,
     padding: 16,
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -12,27 +12,91 @@ import {
 } from 'react-native';
 import ImageCropPicker from 'react-native-image-crop-picker';
 import { OCRService } from '../services/ocr';
-import { FirestoreService } from '../services/firestore';
+import { OCREngineRegistry } from '../services/ocrEngines';
+import { SyncQueueService } from '../services/syncQueue';
+import { DuplicateService } from '../services/duplicates';
 import { ImageCompressor } from '../utils/imageCompressor';
+import { ImageHash } from '../utils/imageHash';
+import { ImageQuality } from '../utils/imageQuality';
+import { TicketDetector } from '../utils/ticketDetector';
+import { DuplicatePrompt } from '../utils/duplicatePrompt';
 import { useAuth } from '../context/AuthContext';
-import { Bill } from '../types';
+import { BillReviewForm } from '../components/BillReviewForm';
+import { SourceMismatchNotice } from '../components/SourceMismatchNotice';
+import { CornerAdjuster } from '../components/CornerAdjuster';
+import { BillForm, BillFormField, BillFormValues } from '../utils/billForm';
+import { Bill, ImageQualityIssue, OCREngineId, TicketCorners } from '../types';
+
+// Engine combinations offered for side-by-side comparison; "Fused" merges all of them per line.
+// Options needing an engine this build cannot run (e.g. Paddle without its models) are not offered
+const ALL_ENGINE_OPTIONS: { label: string; engines: OCREngineId[] }[] = [
+  { label: 'ML Kit', engines: OCRService.defaultEngines },
+  { label: 'Paddle', engines: ['paddle'] },
+  { label: 'Fused', engines: ['mlkit-latin', 'mlkit-devanagari', 'paddle'] },
+];
+const ENGINE_OPTIONS = ALL_ENGINE_OPTIONS.filter((option) => option.engines.every((id) => OCREngineRegistry.isAvailable(id)));
+
+// What to tell the user for each failed quality check
+const QUALITY_MESSAGES: Record<ImageQualityIssue, string> = {
+  lowResolution: '• The photo is too small. Move closer or use the camera instead of a screenshot.',
+  blurry: '• The photo is blurry. Hold the phone steady and tap to focus on the ticket.',
+  tooDark: '• The photo is too dark. Find more light or turn on the flash.',
+  tooBright: '• The photo is washed out. Avoid direct light or glare on the ticket.',
+  noTicket: '• No ticket found. Fill the frame with the ticket.',
+};
 
 export const CameraScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
   const [image, setImage] = useState<string | null>(null);
   const [processing, setProcessing] = useState(false);
   const [extractedData, setExtractedData] = useState<Partial<Bill> | null>(null);
+  const [formValues, setFormValues] = useState<BillFormValues | null>(null);
+  const [engineOption, setEngineOption] = useState(ENGINE_OPTIONS[0]);
+  // The photo as captured, before flattening, kept so the corners can be adjusted again
+  const [capture, setCapture] = useState<{
+    uri: string;
+    width: number;
+    height: number;
+    corners: TicketCorners;
+    detected: boolean;
+  } | null>(null);
+  const [adjusting, setAdjusting] = useState(false);
   const { user } = useAuth();
 
+  // Runs before the expensive OCR pass; resolves false when the user wants to retake the photo
+  const passesQualityCheck = async (uri: string): Promise<boolean> => {
+    setProcessing(true);
+    let issues: ImageQualityIssue[];
+    try {
+      issues = (await ImageQuality.assess(uri)).issues;
+    } catch (error) {
+      console.warn('⚠️ Image quality check failed, running OCR anyway:', error);
+      return true;
+    } finally {
+      setProcessing(false);
+    }
+    if (issues.length === 0) return true;
+
+    return new Promise((resolve) =>
+      Alert.alert(
+        'Retake photo?',
+        `The ticket may not be readable:\n\n${issues.map((issue) => QUALITY_MESSAGES[issue]).join('\n')}`,
+        [
+          { text: 'Use anyway', onPress: () => resolve(true) },
+          { text: 'Retake', onPress: () => resolve(false) },
+        ],
+        { cancelable: false },
+      ),
+    );
+  };
+
   const takePhoto = async () => {
     console.log('📸 takePhoto called');
     try {
       const image = await ImageCropPicker.openCamera({
-        width: 1024,
-        height: 1024,
-        cropping: true,
-        freeStyleCropEnabled: true,
+        // Full size and uncropped: the quality check needs the real resolution, TicketDetector finds the
+        // ticket and the OCR and archival copies are resized later
         mediaType: 'photo',
-        compressImageQuality: 0.8,
+        compressImageQuality: 1,
       });
 
       console.log('📸 Camera result:', image.path);
@@ -43,15 +107,15 @@ export const CameraScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
           // Ensure URI has file:// prefix for consistency if needed, though ImageCropPicker usually returns it or just path
           // But for consistency with previous logic:
           const uri = originalUri.startsWith('file://') ? originalUri : `file://${originalUri}`;
-          
-          console.log('📸 Compressing image before processing...');
-          // We can skip extra compression if ImageCropPicker already compressed it, but keeping it for safety/consistency
-          const compressedUri = await ImageCompressor.compressImage(uri);
-          console.log('📸 Compression complete:', compressedUri);
-          
-          setImage(compressedUri);
-          // Small delay to ensure file is ready and UI updates
-          setTimeout(() => processImage(compressedUri), 500);
+
+          // Judge the photo as captured, before any resizing that would hide blur or upscale a small image
+          if (!(await passesQualityCheck(uri))) {
+            takePhoto();
+            return;
+          }
+
+          // Work on the original: the OCR and archival copies are each derived from it, never from one another
+          await prepareTicket(uri);
         } catch (error) {
           console.error('Error handling camera result:', error);
           Alert.alert('Error', 'Failed to process photo');
@@ -69,12 +133,9 @@ export const CameraScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
     console.log('🖼️ pickImage called');
     try {
       const image = await ImageCropPicker.openPicker({
-        width: 1024,
-        height: 1024,
-        cropping: true,
-        freeStyleCropEnabled: true,
+        // Full size and uncropped, as in takePhoto
         mediaType: 'photo',
-        compressImageQuality: 0.8,
+        compressImageQuality: 1,
       });
 
       console.log('🖼️ Image library result:', image.path);
@@ -84,13 +145,12 @@ export const CameraScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
           const originalUri = image.path;
           const uri = originalUri.startsWith('file://') ? originalUri : `file://${originalUri}`;
 
-          console.log('🖼️ Compressing image before processing...');
-          const compressedUri = await ImageCompressor.compressImage(uri);
-          console.log('🖼️ Compression complete:', compressedUri);
-          
-          setImage(compressedUri);
-          // Small delay to ensure file is ready and UI updates
-          setTimeout(() => processImage(compressedUri), 500);
+          if (!(await passesQualityCheck(uri))) {
+            pickImage();
+            return;
+          }
+
+          await prepareTicket(uri);
         } catch (error) {
           console.error('Error handling gallery result:', error);
           Alert.alert('Error', 'Failed to process image');
@@ -104,12 +164,79 @@ export const CameraScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
     }
   };
 
-  const processImage = async (imageUri: string) => {
+  // Find the ticket and flatten it before OCR; without a confident outline the user places the corners
+  const prepareTicket = async (uri: string) => {
+    setImage(uri);
+    setProcessing(true);
+    try {
+      const detection = await TicketDetector.detect(uri);
+      const corners = detection.corners ?? TicketDetector.frameCorners(detection.width, detection.height);
+      setCapture({ uri, width: detection.width, height: detection.height, corners, detected: !!detection.corners });
+
+      if (!detection.corners) {
+        setProcessing(false);
+        setAdjusting(true);
+      } else if (TicketDetector.coversFrame(detection.corners, detection.width, detection.height)) {
+        processImage(uri);
+      } else {
+        await flattenAndProcess(uri, detection.corners);
+      }
+    } catch (error) {
+      console.warn('⚠️ Ticket detection failed, using the photo as is:', error);
+      processImage(uri);
+    }
+  };
+
+  const flattenAndProcess = async (uri: string, corners: TicketCorners) => {
     setProcessing(true);
     try {
-      // Extract text using OCR
-      const data = await OCRService.extractTextFromImage(imageUri);
+      const flattened = await TicketDetector.flatten(uri, corners);
+      console.log('🎫 Flattened ticket:', flattened);
+      setImage(flattened);
+      processImage(flattened);
+    } catch (error) {
+      console.warn('⚠️ Could not flatten ticket, using the photo as is:', error);
+      setImage(uri);
+      processImage(uri);
+    }
+  };
+
+  const confirmCorners = (corners: TicketCorners) => {
+    if (!capture) return;
+    setAdjusting(false);
+    setCapture({ ...capture, corners });
+    resetExtraction();
+    flattenAndProcess(capture.uri, corners);
+  };
+
+  const keepWholePhoto = () => {
+    if (!capture) return;
+    setAdjusting(false);
+    resetExtraction();
+    setImage(capture.uri);
+    processImage(capture.uri);
+  };
+
+  // Backing out before anything was read drops the capture; otherwise the current result stays
+  const cancelAdjusting = () => {
+    setAdjusting(false);
+    if (!extractedData) {
+      setImage(null);
+      setCapture(null);
+    }
+  };
+
+  const processImage = async (imageUri: string, engines: OCREngineId[] = engineOption.engines) => {
+    setProcessing(true);
+    try {
+      // OCR reads a grayscale, contrast-stretched copy; the colour photo is what gets saved
+      const ocrUri = await ImageCompressor.compress(imageUri, 'ocr').catch((error) => {
+        console.warn('⚠️ Could not prepare OCR copy, reading the photo as is:', error);
+        return imageUri;
+      });
+      const data = await OCRService.extractTextFromImage(ocrUri, engines);
       setExtractedData(data);
+      setFormValues(BillForm.fromBill(data));
     } catch (error: any) {
       Alert.alert('Error', error.message || 'Failed to process image');
       console.error(error);
@@ -118,48 +245,80 @@ export const CameraScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
     }
   };
 
+  // Switching engine re-runs OCR on the current photo so the results can be compared
+  const changeEngine = (nextOption: typeof engineOption) => {
+    if (nextOption === engineOption || processing) return;
+    setEngineOption(nextOption);
+    if (image) {
+      resetExtraction();
+      processImage(image, nextOption.engines);
+    }
+  };
+
+  const resetExtraction = () => {
+    setExtractedData(null);
+    setFormValues(null);
+  };
+
+  const validation = useMemo(() => (formValues ? BillForm.validate(formValues) : null), [formValues]);
+
+  const updateField = (field: BillFormField, value: string) => {
+    setFormValues((current) => (current ? { ...current, [field]: value } : current));
+  };
+
   const saveBill = async () => {
-    if (!extractedData || !user) {
+    if (!extractedData || !formValues || !validation || !user) {
       Alert.alert('Error', 'Missing required data');
       return;
     }
 
-    if (!extractedData.billNumber) {
-      Alert.alert('Error', 'Bill number is missing. Please enter it manually.');
+    if (!BillForm.isValid(validation)) {
+      Alert.alert('Check the details', Object.values(validation.errors).join('\n'));
       return;
     }
 
+    const reviewed = BillForm.toBill(formValues);
+
     setProcessing(true);
     try {
-      // Check for duplicate bill
-      /*
-      const exists = await FirestoreService.checkBillExists(extractedData.billNumber);
-      if (exists) {
-        Alert.alert('Error', 'This bill number already exists in the system.');
-        setProcessing(false);
+      // Check for duplicate bill; a failed image hash only weakens the check
+      const imageHash = image
+        ? await ImageHash.compute(image).catch((error) => {
+            console.warn('⚠️ Could not hash ticket image:', error);
+            return undefined;
+          })
+        : undefined;
+      const { match, checked } = await DuplicateService.check(user.id, { ...reviewed, imageHash });
+      if (match && !(await DuplicatePrompt.confirm(match, () => navigation.navigate('Home')))) {
         return;
       }
-      */
 
-      // Save bill to Firestore (without image upload)
-      await FirestoreService.saveBill({
+      // The working image is the original or the flattened ticket; this is its only archival encode
+      const archivedImage = image ? await ImageCompressor.compress(image, 'archival').catch(() => image) : null;
+
+      // Queue locally first so the capture survives being offline; the photo is uploaded after the bill syncs
+      const { synced } = await SyncQueueService.enqueue({
         userId: user.id,
-        billNumber: extractedData.billNumber || '',
-        amount: extractedData.amount || 0,
-        date: extractedData.date || new Date(),
-        // from: extractedData.from || '',
-        // to: extractedData.to || '',
+        ...reviewed,
         extractedText: extractedData.extractedText,
-        co2Saved: extractedData.co2Saved,
-      });
+        rawText: extractedData.rawText,
+        qrPayload: extractedData.qrPayload,
+        qrDiagnostics: extractedData.qrDiagnostics,
+        fieldConfidence: extractedData.fieldConfidence,
+        userEdits: BillForm.diff(extractedData, formValues),
+        ...(extractedData.sourceMismatches ? { sourceMismatches: extractedData.sourceMismatches } : {}),
+        ...(imageHash ? { imageHash } : {}),
+      }, { imageUri: archivedImage, duplicateChecked: checked });
 
-      Alert.alert('Success', 'Bill saved successfully!', [
-        { text: 'OK', onPress: () => navigation.navigate('Home') },
-      ]);
+      Alert.alert(
+        synced ? 'Success' : 'Saved offline',
+        synced ? 'Bill saved successfully!' : 'The bill is stored on this device and will sync automatically.',
+        [{ text: 'OK', onPress: () => navigation.navigate('Home') }],
+      );
       
       // Reset state
       setImage(null);
-      setExtractedData(null);
+      resetExtraction();
     } catch (error) {
       Alert.alert('Error', 'Failed to save bill');
       console.error(error);
@@ -173,6 +332,23 @@ export const CameraScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
       <View style={styles.content}>
         <Text style={styles.title}>Capture Bill</Text>
 
+        {ENGINE_OPTIONS.length > 1 && (
+          <View style={styles.engineToggle}>
+            {ENGINE_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.label}
+                style={[styles.engineOption, engineOption === option && styles.engineOptionActive]}
+                onPress={() => changeEngine(option)}
+                disabled={processing}
+              >
+                <Text style={[styles.engineOptionText, engineOption === option && styles.engineOptionTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         {!image ? (
           <View style={styles.buttonContainer}>
             <TouchableOpacity style={styles.captureButton} onPress={takePhoto}>
@@ -185,6 +361,12 @@ export const CameraScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
         ) : (
           <>
             {image && <Image source={{ uri: image }} style={styles.image} />}
+
+            {capture && !processing && (
+              <TouchableOpacity style={styles.adjustButton} onPress={() => setAdjusting(true)}>
+                <Text style={styles.adjustText}>✂️ Adjust corners</Text>
+              </TouchableOpacity>
+            )}
             
             {processing && (
               <View style={styles.processingContainer}>
@@ -193,20 +375,19 @@ export const CameraScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
               </View>
             )}
 
-            {extractedData && !processing && (
+            {extractedData && formValues && validation && !processing && (
               <View style={styles.dataContainer}>
-                <Text style={styles.dataTitle}>Extracted Information</Text>
-                <Text style={styles.dataText}>Bill : {extractedData.billNumber || '—'}</Text>
-                <Text style={styles.dataText}>
-                  Date : {extractedData.date?.toLocaleDateString() || '—'}
-                </Text>
-                {/* <Text style={styles.dataText}>From : {extractedData.from || '—'}</Text>
-                <Text style={styles.dataText}>To : {extractedData.to || '—'}</Text> */}
-                <Text style={styles.dataText}>Amount / Fare : ₹{extractedData.amount || '—'}</Text>
-                {extractedData.co2Saved && (
-                  <Text style={styles.dataText}>CO2 Saved : {extractedData.co2Saved}</Text>
+                <Text style={styles.dataTitle}>Review Extracted Information</Text>
+                {extractedData.sourceMismatches && (
+                  <SourceMismatchNotice mismatches={extractedData.sourceMismatches} />
                 )}
-                
+                <BillReviewForm
+                  values={formValues}
+                  validation={validation}
+                  fieldConfidence={extractedData.fieldConfidence}
+                  onChange={updateField}
+                />
+
                 {extractedData.extractedText && (
                   <View style={styles.rawTextContainer}>
                     <Text style={styles.rawTextTitle}>Raw Text:</Text>
@@ -223,13 +404,14 @@ export const CameraScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
                 style={[styles.button, styles.retakeButton]}
                 onPress={() => {
                   setImage(null);
-                  setExtractedData(null);
+                  setCapture(null);
+                  resetExtraction();
                 }}
               >
                 <Text style={styles.buttonText}>Retake</Text>
               </TouchableOpacity>
               
-              {extractedData && (
+              {formValues && (
                 <TouchableOpacity
                   style={[styles.button, styles.saveButton, processing && styles.buttonDisabled]}
                   onPress={saveBill}
@@ -244,6 +426,20 @@ export const CameraScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
           </>
         )}
       </View>
+
+      {capture && (
+        <CornerAdjuster
+          visible={adjusting}
+          uri={capture.uri}
+          imageWidth={capture.width}
+          imageHeight={capture.height}
+          initialCorners={capture.corners}
+          detected={capture.detected}
+          onConfirm={confirmCorners}
+          onUseWholePhoto={keepWholePhoto}
+          onCancel={cancelAdjusting}
+        />
+      )}
     </ScrollView>
   );
 };
@@ -265,6 +461,30 @@ const styles = StyleSheet.create({
   buttonContainer: {
     gap: 16,
   },
+  engineToggle: {
+    flexDirection: 'row',
+    backgroundColor: '#f0f0f0',
+    borderRadius: 8,
+    padding: 4,
+    marginBottom: 20,
+  },
+  engineOption: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  engineOptionActive: {
+    backgroundColor: '#007AFF',
+  },
+  engineOptionText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  engineOptionTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
   captureButton: {
     backgroundColor: '#007AFF',
     padding: 20,
@@ -277,6 +497,15 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     marginBottom: 20,
   },
+  adjustButton: {
+    alignSelf: 'center',
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  adjustText: {
+    color: '#007AFF',
+    fontSize: 16,
+  },
   processingContainer: {
     alignItems: 'center',
     padding: 20,
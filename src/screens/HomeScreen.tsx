@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useFocusEffect } from '@react-navigation/native';
 import {
   View,
   Text,
@@ -7,13 +8,19 @@ import {
   FlatList,
   Image,
   RefreshControl,
-          <Text style={styles.cameraLabel}>Book Free{'\n'}Commute</Text>
+  ActivityIndicator,
+  Dimensions,
   PixelRatio,
   Platform,
+  Alert,
 } from 'react-native';
 import { useAuth } from '../context/AuthContext';
-import { FirestoreService } from '../services/firestore';
-import { Bill, ExpenseStats } from '../types';
+import { BillService } from '../services/bills';
+import { Co2Service } from '../services/co2';
+import { SyncQueueService } from '../services/syncQueue';
+import { ImageUploadService } from '../services/imageUpload';
+import { ProfileSyncBanner } from '../components/ProfileSyncBanner';
+import { Bill, BillDateRange, BillPageCursor, BillSyncState, ExpenseStats, PendingBill } from '../types';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const scale = SCREEN_WIDTH / 375; // Base width of 375 (iPhone X/11/12/13 Mini)
@@ -27,6 +34,25 @@ const normalize = (size: number) => {
   }
 };
 
+const startOfMonth = (monthOffset: number) => {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth() + monthOffset, 1);
+};
+
+const SYNC_BADGES: Record<BillSyncState, string> = {
+  pending: '⏳ Waiting to sync',
+  syncing: '🔄 Syncing…',
+  conflict: '⚠️ Possible duplicate — tap to resolve',
+  synced: '☁️ Synced',
+};
+
+const DATE_RANGES: { label: string; range: () => BillDateRange }[] = [
+  { label: 'All', range: () => ({}) },
+  { label: 'Last 7 days', range: () => ({ from: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) }) },
+  { label: 'This month', range: () => ({ from: startOfMonth(0) }) },
+  { label: 'Last month', range: () => ({ from: startOfMonth(-1), to: new Date(startOfMonth(0).getTime() - 1) }) },
+];
+
 export const HomeScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
   const { user, logout } = useAuth();
   const [bills, setBills] = useState<Bill[]>([]);
@@ -34,21 +60,66 @@ export const HomeScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
   const [refreshing, setRefreshing] = useState(false);
   const [loading, setLoading] = useState(true);
   const [showRecent, setShowRecent] = useState(false);
+  const [showDeleted, setShowDeleted] = useState(false);
+  const [dateRange, setDateRange] = useState(DATE_RANGES[0]);
+  const [cursor, setCursor] = useState<BillPageCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [pending, setPending] = useState<PendingBill[]>([]);
+  const [imageUploads, setImageUploads] = useState<Record<string, number>>({});
+  // Guards against a stale page landing after the filters changed
+  const requestId = useRef(0);
+  const pendingCount = useRef(0);
+
+  // Load on mount, when the filters change and whenever the screen regains focus, e.g. after saving, editing or
+  // deleting a bill
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [showDeleted, dateRange]),
+  );
 
+  // Bills captured offline show at the top until they reach Firestore; reload once one does
   useEffect(() => {
-    loadData();
-  }, []);
+    if (!user) return;
+
+    const show = (queue: PendingBill[]) => {
+      const mine = queue.filter((item) => item.bill.userId === user.id);
+      if (mine.length < pendingCount.current) {
+        loadData();
+      }
+      pendingCount.current = mine.length;
+      setPending(mine);
+    };
+    SyncQueueService.getPending(user.id).then(show);
+    return SyncQueueService.subscribe(show);
+  }, [user, showDeleted, dateRange]);
+
+  // Ticket photos upload after the bill is saved; reload once one has its URLs so the thumbnail appears
+  useEffect(() => {
+    let uploading: string[] = [];
+    return ImageUploadService.subscribe((progress) => {
+      if (uploading.some((billId) => !(billId in progress))) {
+        loadData();
+      }
+      uploading = Object.keys(progress);
+      setImageUploads(progress);
+    });
+  }, [user, showDeleted, dateRange]);
 
   const loadData = async () => {
     if (!user) return;
 
+    const currentRequest = ++requestId.current;
+    const range = dateRange.range();
     try {
-      const [userBills, expenseStats] = await Promise.all([
-        FirestoreService.getUserBills(user.id),
-        FirestoreService.getExpenseStats(user.id),
+      const [firstPage, expenseStats] = await Promise.all([
+        BillService.getUserBillsPage(user.id, { range, includeDeleted: showDeleted }),
+        BillService.getExpenseStats(user.id, range),
       ]);
+      if (currentRequest !== requestId.current) return;
 
-      setBills(userBills);
+      setBills(firstPage.bills);
+      setCursor(firstPage.cursor);
       setStats(expenseStats);
     } catch (error) {
       console.error('Error loading data:', error);
@@ -58,40 +129,113 @@ export const HomeScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
     }
   };
 
+  const loadMore = async () => {
+    if (!user || !cursor || loadingMore) return;
+
+    const currentRequest = requestId.current;
+    setLoadingMore(true);
+    try {
+      const nextPage = await BillService.getUserBillsPage(user.id, {
+        after: cursor,
+        range: dateRange.range(),
+        includeDeleted: showDeleted,
+      });
+      if (currentRequest !== requestId.current) return;
+
+      setBills((current) => [...current, ...nextPage.bills]);
+      setCursor(nextPage.cursor);
+    } catch (error) {
+      console.error('Error loading more bills:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const onRefresh = () => {
     setRefreshing(true);
+    SyncQueueService.processQueue();
     loadData();
   };
 
+  const handlePendingPress = (item: PendingBill) => {
+    if (item.status === 'conflict') {
+      Alert.alert(
+        'Possible duplicate',
+        `A bill with the same ticket details was saved on ${new Date(item.conflictWith?.savedAt ?? item.queuedAt).toLocaleString()} while this one was waiting to sync.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Discard', style: 'destructive', onPress: () => SyncQueueService.discard(item.localId) },
+          { text: 'Save anyway', onPress: () => SyncQueueService.keepConflicting(item.localId) },
+        ],
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Waiting to sync',
+      item.lastError
+        ? `Last attempt failed: ${item.lastError}`
+        : 'This bill is stored on this device and will be uploaded when a connection is available.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => SyncQueueService.discard(item.localId) },
+        { text: 'Retry now', onPress: () => SyncQueueService.retryNow(item.localId) },
+      ],
+    );
+  };
+
   const handleLogout = async () => {
     await logout();
   };
 
   const renderBillItem = ({ item }: { item: Bill }) => (
-    <View style={styles.billCard}>
-      {item.imageUrl ? (
-        <Image source={{ uri: item.imageUrl }} style={styles.billImage} />
+    <TouchableOpacity
+      style={[styles.billCard, item.deletedAt && styles.billCardDeleted]}
+      onPress={() => {
+        const queued = pending.find((entry) => entry.localId === item.id);
+        if (queued) {
+          handlePendingPress(queued);
+        } else {
+          navigation.navigate('BillDetail', { billId: item.id });
+        }
+      }}
+    >
+      {item.thumbnailUrl || item.imageUrl ? (
+        <Image source={{ uri: item.thumbnailUrl ?? item.imageUrl }} style={styles.billImage} />
       ) : (
         <View style={[styles.billImage, { backgroundColor: '#f0f0f0', justifyContent: 'center', alignItems: 'center' }]}>
-          <Text style={{ fontSize: normalize(20) }}>📄</Text>
+          {item.id in imageUploads ? (
+            <Text style={styles.uploadProgress}>{Math.round(imageUploads[item.id] * 100)}%</Text>
+          ) : (
+            <Text style={{ fontSize: normalize(20) }}>📄</Text>
+          )}
         </View>
       )}
       <View style={styles.billDetails}>
-        <Text style={styles.billNumber}>Bill #{item.billNumber}</Text>
+        <Text style={styles.billNumber}>
+          Bill #{item.billNumber}
+          {item.deletedAt ? '  (deleted)' : ''}
+        </Text>
         <Text style={styles.billAmount}>₹{item.amount.toFixed(2)}</Text>
-        {/* <Text style={styles.billRoute}>
-          {item.from} → {item.to}
-        </Text> */}
+        {item.from && item.to ? (
+          <Text style={styles.billRoute}>
+            {item.from} → {item.to}
+            {item.distanceKm !== undefined ? ` · ${item.distanceKm} km` : ''}
+          </Text>
+        ) : null}
         <Text style={styles.billDate}>
           {item.date.toLocaleDateString()}
         </Text>
-        {item.co2Saved && (
+        {(item.co2SavedGrams !== undefined || item.co2Saved) && (
           <Text style={styles.billCo2}>
-            🌱 {item.co2Saved}
+            🌱 {Co2Service.format(Co2Service.gramsForBill(item))} CO2
           </Text>
         )}
+        <Text style={[styles.syncBadge, item.syncState === 'conflict' && styles.syncBadgeConflict]}>
+          {SYNC_BADGES[item.syncState ?? 'synced']}
+        </Text>
       </View>
-    </View>
+    </TouchableOpacity>
   );
 
   return (
@@ -119,6 +263,22 @@ export const HomeScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
         </TouchableOpacity>
       </View>
 
+      <ProfileSyncBanner />
+
+      <View style={styles.rangeContainer}>
+        {DATE_RANGES.map((option) => (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.rangeChip, dateRange === option && styles.rangeChipActive]}
+            onPress={() => setDateRange(option)}
+          >
+            <Text style={[styles.rangeChipText, dateRange === option && styles.rangeChipTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
       {stats && (
         <>
           <View style={styles.statsContainer}>
@@ -130,22 +290,27 @@ export const HomeScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
               <Text style={styles.statValue}>{stats.billCount}</Text>
               <Text style={styles.statLabel}>Bills</Text>
             </View>
+            <View style={styles.statCard}>
+              <Text style={styles.statValue}>{stats.totalDistance.toFixed(1)} km</Text>
+              <Text style={styles.statLabel}>
+                Distance{stats.billsWithoutDistance > 0 ? `\n(${stats.billsWithoutDistance} without stations)` : ''}
+              </Text>
+            </View>
           </View>
 
           <View style={styles.co2Container}>
             <TouchableOpacity 
               style={styles.co2Card}
               onPress={() => {
-                // Convert dates to strings to avoid non-serializable warning
-                const serializableBills = bills.map(b => ({
-                  ...b,
-                  date: b.date instanceof Date ? b.date.toISOString() : b.date,
-                  createdAt: b.createdAt instanceof Date ? b.createdAt.toISOString() : b.createdAt,
-                }));
-                navigation.navigate('CO2Summary', { bills: serializableBills });
+                // Dates are passed as strings to keep navigation params serializable
+                const range = dateRange.range();
+                navigation.navigate('CO2Summary', {
+                  from: range.from?.toISOString(),
+                  to: range.to?.toISOString(),
+                });
               }}
             >
-              <Text style={styles.co2Value}>{stats.totalCo2Saved?.toFixed(2) || '0.00'} g</Text>
+              <Text style={styles.co2Value}>{Co2Service.format(stats.totalCo2Saved || 0)}</Text>
               <Text style={styles.co2Label}>Total CO2 Saved 🌱</Text>
             </TouchableOpacity>
           </View>
@@ -161,11 +326,22 @@ export const HomeScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
           <Text style={styles.accordionIcon}>{showRecent ? '−' : '+'}</Text>
         </TouchableOpacity>
 
+        {showRecent ? (
+          <TouchableOpacity onPress={() => setShowDeleted((prev) => !prev)}>
+            <Text style={styles.deletedToggle}>{showDeleted ? 'Hide deleted bills' : 'Show deleted bills'}</Text>
+          </TouchableOpacity>
+        ) : null}
+
         {showRecent ? (
           <FlatList
-            data={bills}
+            data={[...pending.map(SyncQueueService.toBill), ...bills]}
             renderItem={renderBillItem}
             keyExtractor={(item) => item.id}
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
+            ListFooterComponent={
+              loadingMore ? <ActivityIndicator style={styles.listFooter} color="#007AFF" /> : null
+            }
             refreshControl={
               <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
             }
@@ -255,6 +431,29 @@ const styles = StyleSheet.create({
     color: '#FF3B30',
     fontSize: 16,
   },
+  rangeContainer: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    gap: 8,
+  },
+  rangeChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+  },
+  rangeChipActive: {
+    backgroundColor: '#007AFF',
+  },
+  rangeChipText: {
+    fontSize: normalize(12),
+    color: '#333',
+  },
+  rangeChipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
   statsContainer: {
     flexDirection: 'row',
     padding: 16,
@@ -276,6 +475,7 @@ const styles = StyleSheet.create({
     fontSize: normalize(10),
     color: '#666',
     marginTop: 4,
+    textAlign: 'center',
   },
   co2Container: {
     paddingHorizontal: 16,
@@ -335,11 +535,24 @@ const styles = StyleSheet.create({
     marginBottom: normalize(8),
     flexDirection: 'row',
   },
+  billCardDeleted: {
+    opacity: 0.5,
+  },
+  deletedToggle: {
+    fontSize: normalize(12),
+    color: '#007AFF',
+    paddingBottom: 8,
+  },
   billImage: {
     width: normalize(40),
     height: normalize(40),
     borderRadius: 8,
   },
+  uploadProgress: {
+    fontSize: normalize(11),
+    color: '#007AFF',
+    fontWeight: '600',
+  },
   billDetails: {
     flex: 1,
     marginLeft: normalize(12),
@@ -372,6 +585,18 @@ const styles = StyleSheet.create({
     marginTop: 2,
     fontWeight: '500',
   },
+  syncBadge: {
+    fontSize: normalize(10),
+    color: '#999',
+    marginTop: 2,
+  },
+  syncBadgeConflict: {
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+  listFooter: {
+    paddingVertical: 12,
+  },
   emptyContainer: {
     padding: 40,
     alignItems: 'center',
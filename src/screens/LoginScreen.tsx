@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -9,14 +9,71 @@ import {
   KeyboardAvoidingView,
   Platform,
 } from 'react-native';
+import type { ApplicationVerifier } from 'firebase/auth';
 import { useAuth } from '../context/AuthContext';
+import { RecaptchaVerifier } from '../components/RecaptchaVerifier';
+import { Repositories } from '../repositories';
+
+// Messages for the Firebase Auth errors a user can act on
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  'auth/invalid-phone-number': 'That phone number is not valid. Include the country code, e.g. +91 98765 43210.',
+  'auth/quota-exceeded': 'SMS limit reached. Please try again later.',
+  'auth/network-request-failed': 'No connection. Check your internet and try again.',
+};
+
+const authErrorMessage = (error: any, fallback: string) =>
+  AUTH_ERROR_MESSAGES[error?.code] ?? error?.message ?? fallback;
+
+// 95000 -> "1:35"
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
 
 export const LoginScreen: React.FC = () => {
   const [phoneNumber, setPhoneNumber] = useState('');
   const [otp, setOtp] = useState('');
   const [otpSent, setOtpSent] = useState(false);
   const [loading, setLoading] = useState(false);
-  const { login, sendOTP } = useAuth();
+  const { login, sendOTP, authError, otpStatus, refreshOtpStatus, clearAuthError } = useAuth();
+  const verifier = useRef<ApplicationVerifier>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const lockedUntil = otpStatus?.lockedUntil && otpStatus.lockedUntil > now ? otpStatus.lockedUntil : null;
+  const resendAt =
+    otpStatus?.resendAvailableAt && otpStatus.resendAvailableAt > now ? otpStatus.resendAvailableAt : null;
+
+  // Tick once a second while a countdown is showing
+  useEffect(() => {
+    if (!lockedUntil && !resendAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil, resendAt]);
+
+  // Lockouts outlive restarts, so look the number up before the user tries it
+  useEffect(() => {
+    if (phoneNumber.replace(/[^0-9]/g, '').length >= 10) {
+      refreshOtpStatus(phoneNumber);
+    }
+  }, [phoneNumber]);
+
+  const errorText = () => {
+    if (lockedUntil) {
+      return `Too many attempts. Try again in ${formatCountdown(lockedUntil - now)}.`;
+    }
+    if (!authError) return null;
+    switch (authError.code) {
+      case 'invalidCode':
+        return `${authError.message} ${authError.attemptsLeft} ${authError.attemptsLeft === 1 ? 'attempt' : 'attempts'} left.`;
+      case 'resendCooldown':
+        // The countdown on the button says when
+        return resendAt ? null : authError.message;
+      case 'tooManyAttempts':
+        return `${authError.message} Please try again later.`;
+      default:
+        return authError.message;
+    }
+  };
 
   const handleSendOTP = async () => {
     if (phoneNumber.length < 10) {
@@ -26,15 +83,19 @@ export const LoginScreen: React.FC = () => {
 
     setLoading(true);
     try {
-      const success = await sendOTP(phoneNumber);
+      const success = verifier.current ? await sendOTP(phoneNumber, verifier.current) : false;
+      setNow(Date.now());
       if (success) {
         setOtpSent(true);
-        Alert.alert('Success', 'OTP sent successfully! (Use 123456)');
-      } else {
-        Alert.alert('Error', 'Failed to send OTP');
+        setOtp('');
+        Alert.alert(
+          'Success',
+          Repositories.kind === 'memory' ? 'OTP sent successfully! (Use 123456)' : 'OTP sent successfully!',
+        );
       }
     } catch (error) {
-      Alert.alert('Error', 'Failed to send OTP');
+      console.error('Error sending OTP:', error);
+      Alert.alert('Error', authErrorMessage(error, 'Failed to send OTP'));
     } finally {
       setLoading(false);
     }
@@ -49,21 +110,32 @@ export const LoginScreen: React.FC = () => {
     setLoading(true);
     try {
       const success = await login(phoneNumber, otp);
+      setNow(Date.now());
       if (!success) {
-        Alert.alert('Error', 'Invalid OTP');
+        setOtp('');
       }
     } catch (error) {
-      Alert.alert('Error', 'Verification failed');
+      console.error('Error verifying OTP:', error);
+      Alert.alert('Error', authErrorMessage(error, 'Verification failed'));
     } finally {
       setLoading(false);
     }
   };
 
+  const sendLabel = (idle: string) => {
+    if (lockedUntil) return `Locked · ${formatCountdown(lockedUntil - now)}`;
+    if (resendAt) return `${idle} in ${formatCountdown(resendAt - now)}`;
+    return idle;
+  };
+
+  const error = errorText();
+
   return (
     <KeyboardAvoidingView
       behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
       style={styles.container}
     >
+      <RecaptchaVerifier ref={verifier} />
       <View style={styles.content}>
         <Text style={styles.title}>Welcome to Jagrut</Text>
         <Text style={styles.subtitle}>Bill Management & Analytics</Text>
@@ -82,12 +154,12 @@ export const LoginScreen: React.FC = () => {
 
           {!otpSent ? (
             <TouchableOpacity
-              style={[styles.button, loading && styles.buttonDisabled]}
+              style={[styles.button, (loading || !!lockedUntil || !!resendAt) && styles.buttonDisabled]}
               onPress={handleSendOTP}
-              disabled={loading}
+              disabled={loading || !!lockedUntil || !!resendAt}
             >
               <Text style={styles.buttonText}>
-                {loading ? 'Sending...' : 'Send OTP'}
+                {loading ? 'Sending...' : sendLabel('Send OTP')}
               </Text>
             </TouchableOpacity>
           ) : (
@@ -95,17 +167,18 @@ export const LoginScreen: React.FC = () => {
               <Text style={styles.label}>Enter OTP</Text>
               <TextInput
                 style={styles.input}
-                placeholder="123456"
+                placeholder="6-digit code"
                 value={otp}
                 onChangeText={setOtp}
                 keyboardType="number-pad"
                 maxLength={6}
+                editable={!lockedUntil}
                 underlineColorAndroid="transparent"
               />
               <TouchableOpacity
-                style={[styles.button, loading && styles.buttonDisabled]}
+                style={[styles.button, (loading || !!lockedUntil) && styles.buttonDisabled]}
                 onPress={handleVerifyOTP}
-                disabled={loading}
+                disabled={loading || !!lockedUntil}
               >
                 <Text style={styles.buttonText}>
                   {loading ? 'Verifying...' : 'Verify OTP'}
@@ -113,12 +186,27 @@ export const LoginScreen: React.FC = () => {
               </TouchableOpacity>
               <TouchableOpacity
                 style={styles.resendButton}
-                onPress={() => setOtpSent(false)}
+                onPress={handleSendOTP}
+                disabled={loading || !!lockedUntil || !!resendAt}
+              >
+                <Text style={[styles.resendText, (!!lockedUntil || !!resendAt) && styles.resendTextDisabled]}>
+                  {sendLabel('Resend OTP')}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.resendButton}
+                onPress={() => {
+                  setOtpSent(false);
+                  setOtp('');
+                  clearAuthError();
+                }}
               >
                 <Text style={styles.resendText}>Change Number</Text>
               </TouchableOpacity>
             </>
           )}
+
+          {error ? <Text style={styles.errorText}>{error}</Text> : null}
         </View>
       </View>
     </KeyboardAvoidingView>
@@ -189,4 +277,13 @@ const styles = StyleSheet.create({
     color: '#007AFF',
     fontSize: 14,
   },
+  resendTextDisabled: {
+    color: '#999',
+  },
+  errorText: {
+    color: '#FF3B30',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 16,
+  },
 });
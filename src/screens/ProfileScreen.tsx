@@ -14,12 +14,15 @@ import * as ImagePicker from 'expo-image-picker';
 import { useAuth } from '../context/AuthContext';
 import { AuthService } from '../services/auth';
 import { StorageService } from '../services/storage';
+import { ProfileSyncBanner } from '../components/ProfileSyncBanner';
+import { UploadState } from '../types';
 
 export const ProfileScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
   const { user, updateUser } = useAuth();
   const [name, setName] = useState(user?.name || '');
   const [photoUrl, setPhotoUrl] = useState(user?.photoUrl || '');
   const [loading, setLoading] = useState(false);
+  const [upload, setUpload] = useState<UploadState | null>(null);
 
   const pickImage = () => {
     Alert.alert(
@@ -54,7 +57,8 @@ export const ProfileScreen: React.FC<{ navigation: any }> = ({ navigation }) =>
         mediaTypes: ['images'],
         allowsEditing: true,
         aspect: [1, 1],
-        quality: 0.5,
+        // Compressed to the avatar profile on upload
+        quality: 1,
       });
 
       if (!result.canceled) {
@@ -77,7 +81,8 @@ export const ProfileScreen: React.FC<{ navigation: any }> = ({ navigation }) =>
         mediaTypes: ['images'],
         allowsEditing: true,
         aspect: [1, 1],
-        quality: 0.5,
+        // Compressed to the avatar profile on upload
+        quality: 1,
       });
 
       if (!result.canceled) {
@@ -93,33 +98,53 @@ export const ProfileScreen: React.FC<{ navigation: any }> = ({ navigation }) =>
     
     setLoading(true);
     try {
+      const previousPhotoUrl = user.photoUrl;
       let finalPhotoUrl = photoUrl;
-      
-      // If photo is a local URI (newly picked), upload it
-      if (photoUrl && photoUrl.startsWith('file://')) {
-        finalPhotoUrl = await StorageService.uploadImage(photoUrl, `profiles/${user.id}`);
+
+      // A newly picked photo is still a local file; upload a thumbnail of it
+      if (photoUrl && photoUrl !== previousPhotoUrl && !StorageService.isStorageUrl(photoUrl)) {
+        finalPhotoUrl = await StorageService.uploadProfilePhoto(user.id, photoUrl, setUpload);
       }
 
-      await AuthService.updateProfile(user.id, {
-        name,
-        photoUrl: finalPhotoUrl,
-      });
+      try {
+        await AuthService.updateProfile(user.id, {
+          name,
+          photoUrl: finalPhotoUrl,
+        });
+      } catch (error) {
+        // Don't leave the new upload orphaned
+        if (finalPhotoUrl !== photoUrl) {
+          StorageService.deleteImage(finalPhotoUrl).catch(() => {});
+        }
+        throw error;
+      }
 
       updateUser({ name, photoUrl: finalPhotoUrl });
+      setPhotoUrl(finalPhotoUrl);
+
+      if (previousPhotoUrl && previousPhotoUrl !== finalPhotoUrl && StorageService.isStorageUrl(previousPhotoUrl)) {
+        StorageService.deleteImage(previousPhotoUrl).catch((error) =>
+          console.warn('⚠️ Could not delete previous profile photo:', error)
+        );
+      }
 
       Alert.alert('Success', 'Profile updated successfully', [
         { text: 'OK', onPress: () => navigation.goBack() }
       ]);
     } catch (error) {
+      // The user cancelled the photo upload; keep the form as it is
+      if (StorageService.isCanceled(error)) return;
       console.error(error);
       Alert.alert('Error', 'Failed to update profile');
     } finally {
       setLoading(false);
+      setUpload(null);
     }
   };
 
   return (
     <ScrollView style={styles.container}>
+      <ProfileSyncBanner />
       <View style={styles.content}>
         <View style={styles.photoContainer}>
           <TouchableOpacity onPress={pickImage}>
@@ -159,12 +184,24 @@ export const ProfileScreen: React.FC<{ navigation: any }> = ({ navigation }) =>
             onPress={handleSave}
             disabled={loading}
           >
-            {loading ? (
+            {upload ? (
+              <Text style={styles.buttonText}>
+                {upload.status === 'retrying'
+                  ? 'Connection lost, retrying...'
+                  : `Uploading photo ${Math.round(upload.progress * 100)}%`}
+              </Text>
+            ) : loading ? (
               <ActivityIndicator color="#fff" />
             ) : (
               <Text style={styles.buttonText}>Save Profile</Text>
             )}
           </TouchableOpacity>
+
+          {upload ? (
+            <TouchableOpacity style={styles.cancelButton} onPress={() => StorageService.cancel(upload.id)}>
+              <Text style={styles.cancelText}>Cancel upload</Text>
+            </TouchableOpacity>
+          ) : null}
         </View>
       </View>
     </ScrollView>
@@ -253,4 +290,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  cancelButton: {
+    alignItems: 'center',
+  },
+  cancelText: {
+    color: '#FF3B30',
+    fontSize: 14,
+  },
 });
@@ -0,0 +1,74 @@
+import { StubOCREngine } from '../ocrEngines';
+import { OCRFusion } from '../ocrFusion';
+import { OCRLine } from '../../types';
+
+// The registry builds the native engines on import
+jest.mock('@react-native-ml-kit/text-recognition', () => ({
+  __esModule: true,
+  default: { recognize: jest.fn() },
+  TextRecognitionScript: { LATIN: 'Latin', DEVANAGARI: 'Devanagari' },
+}));
+jest.mock('../paddleOcr', () => ({ PaddleOCRService: { recognize: jest.fn() } }));
+
+const line = (text: string, confidence: number, x: number, y: number, width = 200, height = 30): OCRLine => ({
+  text,
+  confidence,
+  box: { x, y, width, height },
+});
+
+// Each stub stands in for one engine's reading of the same ticket photo
+const recognizeAll = (...readings: OCRLine[][]) =>
+  Promise.all(readings.map((lines) => new StubOCREngine(lines).recognize()));
+
+describe('OCRFusion.fuse', () => {
+  it('keeps the most confident reading of a region both engines read', async () => {
+    const fused = OCRFusion.fuse(
+      await recognizeAll(
+        [line('Fare: Rs 3O.00', 0.6, 10, 100)],
+        [line('Fare: Rs 30.00', 0.9, 12, 102)],
+      ),
+    );
+
+    expect(fused.map((fusedLine) => fusedLine.text)).toEqual(['Fare: Rs 30.00']);
+    expect(fused[0].confidence).toBe(0.9);
+    expect(fused[0].engine).toBe('stub');
+  });
+
+  it('merges lines that only one engine read', async () => {
+    const fused = OCRFusion.fuse(
+      await recognizeAll(
+        [line('PUNE METRO', 0.9, 10, 10), line('From: Vanaz', 0.8, 10, 60)],
+        [line('To: Ramwadi', 0.7, 10, 110)],
+      ),
+    );
+
+    expect(OCRFusion.toText(fused)).toBe('PUNE METRO\nFrom: Vanaz\nTo: Ramwadi');
+  });
+
+  it('keeps both lines when their boxes overlap less than half', async () => {
+    const fused = OCRFusion.fuse(
+      await recognizeAll([line('Ticket No', 0.9, 0, 0, 100, 30)], [line('PM25031409120001', 0.8, 60, 0, 100, 30)]),
+    );
+
+    expect(fused).toHaveLength(2);
+  });
+
+  it('drops blank lines even when they are the most confident', async () => {
+    const fused = OCRFusion.fuse(
+      await recognizeAll([line('   ', 0.99, 10, 10)], [line('Date: 14/03/2025', 0.5, 10, 10)]),
+    );
+
+    expect(fused.map((fusedLine) => fusedLine.text)).toEqual(['Date: 14/03/2025']);
+  });
+
+  it('orders lines top to bottom, then left to right within a row', async () => {
+    const fused = OCRFusion.fuse(
+      await recognizeAll(
+        [line('Ramwadi', 0.8, 300, 52), line('PUNE METRO', 0.9, 10, 0)],
+        [line('Vanaz', 0.8, 10, 50)],
+      ),
+    );
+
+    expect(fused.map((fusedLine) => fusedLine.text)).toEqual(['PUNE METRO', 'Vanaz', 'Ramwadi']);
+  });
+});
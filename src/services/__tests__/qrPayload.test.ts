@@ -0,0 +1,110 @@
+import { QRPayloadService } from '../qrPayload';
+
+// Payloads in the shapes found on Pune Metro tickets: a pipe-separated data block (ticket id, date, fare as a
+// hex float, station codes in the 8th and 9th segments), optionally followed by a <From><To><dd|mm|yy> block
+const METRO_WITH_ROUTE = '{PMRL|1|SJT|PM25031409120001|20250314T091230123|0x1.ep+4|1|VNZ|RMW}{<Vanaz><Ramwadi><14|03|25>}';
+const METRO_DATA_ONLY = '{PMRL|1|SJT|PM25031418450002|20250314T184500000|0x1.4p+4|1|CVC|SWG}';
+const METRO_UNKNOWN_CODE = '{PMRL|1|SJT|PM25031418450003|20250314T184500000|0x1.4p+4|1|CVC|QQQ}';
+const METRO_ROUTE_MISMATCH = '{PMRL|1|SJT|PM25031420000004|20250314T200000000|0x1.ep+4|1|SWG|PCMC}{<Swargate><Vanaz><14|03|25>}';
+
+describe('QRPayloadService.parse', () => {
+  describe('metro payloads', () => {
+    it('reads the data block and takes station names from the route block', () => {
+      const { bill, diagnostics } = QRPayloadService.parse(METRO_WITH_ROUTE);
+
+      expect(bill).toEqual({
+        billNumber: 'PM25031409120001',
+        amount: 30,
+        date: new Date(2025, 2, 14, 9, 12, 30, 123),
+        from: 'Vanaz',
+        to: 'Ramwadi',
+      });
+      expect(diagnostics.format).toBe('metro');
+      expect(diagnostics.attempted).toEqual(['json', 'keyValue', 'metro']);
+      expect(diagnostics.warnings).toEqual([]);
+    });
+
+    it('decodes station codes when there is no route block', () => {
+      const { bill, diagnostics } = QRPayloadService.parse(METRO_DATA_ONLY);
+
+      expect(bill).toMatchObject({ amount: 20, from: 'Civil Court', to: 'Swargate' });
+      expect(diagnostics.fields).toEqual(['billNumber', 'amount', 'date', 'from', 'to']);
+      expect(diagnostics.unknownStationCodes).toEqual([]);
+    });
+
+    it('keeps an unknown station code as is and reports it', () => {
+      const { bill, diagnostics } = QRPayloadService.parse(METRO_UNKNOWN_CODE);
+
+      expect(bill).toMatchObject({ from: 'Civil Court', to: 'QQQ' });
+      expect(diagnostics.unknownStationCodes).toEqual(['QQQ']);
+    });
+
+    it('annotates a route name that disagrees with its station code', () => {
+      const { bill, diagnostics } = QRPayloadService.parse(METRO_ROUTE_MISMATCH);
+
+      expect(bill).toMatchObject({ from: 'Swargate', to: 'Vanaz (PCMC)' });
+      expect(diagnostics.warnings).toEqual(['Route name Vanaz does not match station code PCMC']);
+    });
+
+    it.each([
+      ['0x1.ep+4', 30],
+      ['0x1.4p+4', 20],
+      ['0x1p+5', 32],
+    ])('decodes the hex float fare %s', (fare, expected) => {
+      const { bill } = QRPayloadService.parse(`{PMRL|1|SJT|PM25031409120001|20250314T091230123|${fare}|1|VNZ|RMW}`);
+
+      expect(bill?.amount).toBe(expected);
+    });
+  });
+
+  describe('key/value payloads', () => {
+    it('reads semicolon-separated fields', () => {
+      const { bill, diagnostics } = QRPayloadService.parse(
+        'Ticket: PM-1001; Fare: 25; From: Vanaz; To: Civil Court; Date: 2025-03-14',
+      );
+
+      expect(bill).toMatchObject({ billNumber: 'PM-1001', amount: 25, from: 'Vanaz', to: 'Civil Court' });
+      expect(diagnostics.format).toBe('keyValue');
+    });
+
+    it('keeps commas inside a value', () => {
+      const { bill } = QRPayloadService.parse('Ticket: PM-1002; Total: Rs 1,250.00');
+
+      expect(bill?.amount).toBe(1250);
+    });
+  });
+
+  describe('JSON payloads', () => {
+    it('maps known keys and canonicalises station names', () => {
+      const { bill, diagnostics } = QRPayloadService.parse(
+        JSON.stringify({ billNumber: 'PM25031409120001', fare: 30, from: 'vanaz', to: 'Ramwadi' }),
+      );
+
+      expect(bill).toMatchObject({ billNumber: 'PM25031409120001', amount: 30, from: 'Vanaz', to: 'Ramwadi' });
+      expect(diagnostics.format).toBe('json');
+    });
+
+    it('stops at a JSON payload without bill fields', () => {
+      const { bill, diagnostics } = QRPayloadService.parse(JSON.stringify({ id: 'PM25031409120001' }));
+
+      expect(bill).toBeNull();
+      expect(diagnostics.attempted).toEqual(['json']);
+      expect(diagnostics.warnings).toEqual(['JSON payload has no bill fields']);
+    });
+  });
+
+  it('falls back to free text', () => {
+    const { bill, diagnostics } = QRPayloadService.parse('Ticket No: PM1234567 Fare: 30 Date: 14/03/2025');
+
+    expect(bill).toMatchObject({ billNumber: 'PM1234567', amount: 30, date: new Date(2025, 2, 14) });
+    expect(diagnostics.format).toBe('freeText');
+  });
+
+  it('returns no bill for a payload without ticket data', () => {
+    const { bill, diagnostics } = QRPayloadService.parse('https://example.com/app');
+
+    expect(bill).toBeNull();
+    expect(diagnostics.format).toBeNull();
+    expect(diagnostics.attempted).toEqual(['json', 'keyValue', 'metro', 'freeText']);
+  });
+});
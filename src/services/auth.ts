@@ -1,82 +1,199 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { collection, query, where, getDocs, setDoc, doc } from 'firebase/firestore';
-import { db } from './firebase';
-import { User } from '../types';
+import { ApplicationVerifier, PhoneAuthProvider, signInWithCredential, signOut } from 'firebase/auth';
+import { getFirebase } from './firebase';
+import { UserMigrationService } from './userMigration';
+import { OtpLimiter } from './otpLimiter';
+import { Repositories } from '../repositories';
+import { AuthErrorState, AuthSession, OtpStatus, User } from '../types';
 
-// Mock OTP authentication service with Firestore integration
+// A sign-in step refused for a reason the user can act on (wrong or expired code, limits)
+export class AuthFailure extends Error {
+  constructor(readonly state: AuthErrorState) {
+    super(state.message);
+    this.name = 'AuthFailure';
+  }
+}
+
+const lockedOut = (lockedUntil: number) =>
+  new AuthFailure({ code: 'tooManyAttempts', message: 'Too many attempts for this number.', retryAt: lockedUntil });
+
+// Firebase phone authentication; the in-memory backend keeps the mock OTP so the app runs without Firebase
 export class AuthService {
   private static readonly STORAGE_KEY = 'user_data';
-  private static readonly USERS_COLLECTION = 'users';
-  
-  // Mock OTP - In production, this should use Firebase Auth
-  static async sendOTP(phoneNumber: string): Promise<boolean> {
-    // Simulate sending OTP
-    console.log(`Mock OTP sent to ${phoneNumber}: 123456`);
-    return true;
+  // Present while the cached user has no server profile yet
+  private static readonly UNSYNCED_KEY = 'user_profile_unsynced';
+  // Numbers typed without a country code are Indian
+  private static readonly DEFAULT_COUNTRY_CODE = '91';
+  private static readonly MOCK_OTP = '123456';
+  // Firebase keeps SMS codes valid for a few minutes; past this the code is treated as expired
+  private static readonly OTP_VALIDITY_MS = 5 * 60 * 1000;
+
+  // The verification started by the last sendOTP
+  private static verification: { phoneNumber: string; verificationId: string; sentAt: number } | null = null;
+
+  static async getOtpStatus(phoneNumber: string): Promise<OtpStatus> {
+    return OtpLimiter.status(this.normalizePhoneNumber(phoneNumber));
+  }
+
+  // E.164 form, as Firebase Auth expects: "98765 43210" -> "+919876543210"
+  static normalizePhoneNumber(phoneNumber: string): string {
+    const digits = phoneNumber.replace(/[^0-9]/g, '');
+    if (phoneNumber.trim().startsWith('+')) return `+${digits}`;
+    if (digits.length === 10) return `+${this.DEFAULT_COUNTRY_CODE}${digits}`;
+    return `+${digits}`;
+  }
+
+  // Sends the SMS code and returns the limits now in effect. Throws AuthFailure while the number is
+  // locked or cooling down, and Firebase errors (invalid number, quota, reCAPTCHA) for the caller to show.
+  static async sendOTP(phoneNumber: string, verifier: ApplicationVerifier): Promise<OtpStatus> {
+    const e164 = this.normalizePhoneNumber(phoneNumber);
+
+    const current = await OtpLimiter.status(e164);
+    if (current.lockedUntil) throw lockedOut(current.lockedUntil);
+    if (current.resendAvailableAt) {
+      throw new AuthFailure({
+        code: 'resendCooldown',
+        message: 'Please wait before requesting another code.',
+        retryAt: current.resendAvailableAt,
+      });
+    }
+    const status = await OtpLimiter.recordSend(e164);
+    if (status.lockedUntil) throw lockedOut(status.lockedUntil);
+
+    if (Repositories.kind === 'memory') {
+      console.log(`Mock OTP sent to ${e164}: ${this.MOCK_OTP}`);
+      this.verification = { phoneNumber: e164, verificationId: 'mock', sentAt: Date.now() };
+      return status;
+    }
+
+    try {
+      const provider = new PhoneAuthProvider(getFirebase().auth);
+      const verificationId = await provider.verifyPhoneNumber(e164, verifier);
+      this.verification = { phoneNumber: e164, verificationId, sentAt: Date.now() };
+    } catch (error: any) {
+      // No code went out, so it must not count towards the send limit or start the resend cooldown
+      await OtpLimiter.revertSend(e164);
+      // Firebase's own abuse limit, usually per device
+      if (error?.code === 'auth/too-many-requests') {
+        throw new AuthFailure({ code: 'tooManyAttempts', message: 'Too many attempts from this device.' });
+      }
+      throw error;
+    }
+    console.log('📨 OTP sent to', e164);
+    return status;
   }
 
-  static async verifyOTP(phoneNumber: string, otp: string, name?: string, photoUrl?: string): Promise<User | null> {
-    // Mock verification - accept "123456" as valid OTP
-    if (otp === '123456') {
+  // Signs in with the SMS code. A wrong, expired or locked-out code throws AuthFailure. If the profile cannot
+  // be saved the session starts unsynced and reconcileProfile finishes the job later.
+  static async verifyOTP(phoneNumber: string, otp: string, name?: string, photoUrl?: string): Promise<AuthSession> {
+    const e164 = this.normalizePhoneNumber(phoneNumber);
+    const verification = this.verification;
+    // The verification lives in memory only, so after an app restart the code can no longer be used
+    if (!verification || verification.phoneNumber !== e164) {
+      throw new AuthFailure({ code: 'expiredCode', message: 'This code is no longer valid. Request a new one.' });
+    }
+
+    const status = await OtpLimiter.status(e164);
+    if (status.lockedUntil) throw lockedOut(status.lockedUntil);
+
+    const expired = () => {
+      this.verification = null;
+      return new AuthFailure({ code: 'expiredCode', message: 'This code has expired. Request a new one.' });
+    };
+    if (Date.now() - verification.sentAt > this.OTP_VALIDITY_MS) {
+      throw expired();
+    }
+
+    let uid: string;
+    if (Repositories.kind === 'memory') {
+      if (otp !== this.MOCK_OTP) throw await this.wrongCode(e164);
+      uid = `local_${e164.replace(/[^0-9]/g, '')}`;
+    } else {
       try {
-        // Check if user exists in Firestore
-        const q = query(
-          collection(db, this.USERS_COLLECTION),
-          where('phoneNumber', '==', phoneNumber)
-        );
-        
-        const querySnapshot = await getDocs(q);
-        
-        let user: User;
-        
-        if (!querySnapshot.empty) {
-          // Existing user - retrieve their data
-          const userDoc = querySnapshot.docs[0];
-          const userData = userDoc.data();
-          user = {
-            id: userDoc.id,
-            phoneNumber: userData.phoneNumber,
-            name: userData.name,
-            photoUrl: userData.photoUrl,
-            createdAt: userData.createdAt.toDate(),
-          };
-          console.log('✅ Existing user logged in:', phoneNumber);
-        } else {
-          // New user - create in Firestore
-          const userId = phoneNumber.replace(/[^0-9]/g, ''); // Use phone number as ID
-          const newUser = {
-            phoneNumber,
-            name: name || '',
-            photoUrl: photoUrl || '',
-            createdAt: new Date(),
-          };
-          
-          await setDoc(doc(db, this.USERS_COLLECTION, userId), newUser);
-          
-          user = {
-            id: userId,
-            ...newUser,
-          };
-          console.log('✅ New user created:', phoneNumber);
-        }
-        
-        // Save to AsyncStorage for offline access
-        await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(user));
-        return user;
-      } catch (error) {
-        console.error('❌ Error during authentication:', error);
-        
-        // Fallback to local-only user if Firestore fails
-        const fallbackUser: User = {
-          id: phoneNumber.replace(/[^0-9]/g, ''),
-          phoneNumber,
-          createdAt: new Date(),
-        };
-        await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(fallbackUser));
-        return fallbackUser;
+        const credential = PhoneAuthProvider.credential(verification.verificationId, otp);
+        uid = (await signInWithCredential(getFirebase().auth, credential)).user.uid;
+      } catch (error: any) {
+        if (error?.code === 'auth/invalid-verification-code') throw await this.wrongCode(e164);
+        if (error?.code === 'auth/code-expired') throw expired();
+        throw error;
       }
     }
-    return null;
+    this.verification = null;
+    await OtpLimiter.recordSuccess(e164);
+
+    try {
+      const user = await this.syncProfile({
+        id: uid,
+        phoneNumber: e164,
+        name: name || '',
+        photoUrl: photoUrl || '',
+        createdAt: new Date(),
+      });
+      return { user, profileSynced: true };
+    } catch (error) {
+      // Signed in, but the profile is not on the server yet: say so instead of pretending it is
+      console.warn('⚠️ Signed in without a server profile, will retry:', error);
+      const user: User = { id: uid, phoneNumber: e164, name: name || '', photoUrl: photoUrl || '', createdAt: new Date() };
+      await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(user));
+      await AsyncStorage.setItem(this.UNSYNCED_KEY, 'true');
+      return { user, profileSynced: false };
+    }
+  }
+
+  // Create or merge the server profile for an unsynced session; throws while the backend is unreachable
+  static async reconcileProfile(): Promise<User> {
+    const local = await this.getCurrentUser();
+    if (!local) {
+      throw new Error('Not signed in');
+    }
+    const user = await this.syncProfile(local);
+    console.log('✅ Profile synced for', user.phoneNumber);
+    return user;
+  }
+
+  static async isProfileSynced(): Promise<boolean> {
+    return (await AsyncStorage.getItem(this.UNSYNCED_KEY)) === null;
+  }
+
+  // Existing users keyed by UID, or moved over from their phone-number-keyed account, otherwise created.
+  // A name or photo set on this device wins over the server's.
+  private static async syncProfile(local: User): Promise<User> {
+    let user = await UserMigrationService.migrateLegacyUser(local.id, local.phoneNumber);
+
+    if (user) {
+      const profile = { name: local.name || user.name || '', photoUrl: local.photoUrl || user.photoUrl || '' };
+      if (profile.name !== (user.name || '') || profile.photoUrl !== (user.photoUrl || '')) {
+        await Repositories.users.update(user.id, profile);
+        user = { ...user, ...profile };
+      }
+      console.log('✅ Existing user logged in:', local.phoneNumber);
+    } else {
+      user = await Repositories.users.create(local.id, {
+        phoneNumber: local.phoneNumber,
+        name: local.name || '',
+        photoUrl: local.photoUrl || '',
+        createdAt: local.createdAt,
+      });
+      console.log('✅ New user created:', local.phoneNumber);
+    }
+
+    // Save to AsyncStorage for offline access
+    await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(user));
+    await AsyncStorage.removeItem(this.UNSYNCED_KEY);
+    return user;
+  }
+
+  private static async wrongCode(phoneNumber: string): Promise<AuthFailure> {
+    const status = await OtpLimiter.recordFailure(phoneNumber);
+    if (status.lockedUntil) {
+      this.verification = null;
+      return lockedOut(status.lockedUntil);
+    }
+    return new AuthFailure({
+      code: 'invalidCode',
+      message: 'That code is not correct.',
+      attemptsLeft: status.attemptsLeft,
+    });
   }
 
   static async getCurrentUser(): Promise<User | null> {
@@ -90,7 +207,14 @@ export class AuthService {
       if (user.createdAt && typeof user.createdAt === 'string') {
         user.createdAt = new Date(user.createdAt);
       }
-      
+
+      // Sessions from before Firebase Auth are keyed by the phone number; signing in again migrates them
+      if (Repositories.kind === 'firebase' && user.id === user.phoneNumber.replace(/[^0-9]/g, '')) {
+        console.log('🔐 Legacy session found, sign-in required');
+        await AsyncStorage.removeItem(this.STORAGE_KEY);
+        return null;
+      }
+
       return user;
     } catch (error) {
       console.error('Error getting current user:', error);
@@ -99,15 +223,19 @@ export class AuthService {
   }
 
   static async logout(): Promise<void> {
-    await AsyncStorage.removeItem(this.STORAGE_KEY);
+    if (Repositories.kind === 'firebase') {
+      await signOut(getFirebase().auth);
+    }
+    await AsyncStorage.multiRemove([this.STORAGE_KEY, this.UNSYNCED_KEY]);
     console.log('✅ User logged out');
   }
 
+  // While the session is unsynced only the local copy changes; reconcileProfile pushes it later
   static async updateProfile(userId: string, data: { name?: string; photoUrl?: string }): Promise<void> {
     try {
-      // Update in Firestore
-      const userRef = doc(db, this.USERS_COLLECTION, userId);
-      await setDoc(userRef, data, { merge: true });
+      if (await this.isProfileSynced()) {
+        await Repositories.users.update(userId, data);
+      }
 
       // Update in AsyncStorage
       const currentUser = await this.getCurrentUser();
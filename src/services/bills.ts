@@ -0,0 +1,238 @@
+import { Repositories } from '../repositories';
+import { DistanceService } from './distance';
+import { Co2Service } from './co2';
+import { BillFingerprint } from '../utils/billFingerprint';
+import {
+  Bill,
+  BillDateRange,
+  BillEdits,
+  BillField,
+  BillHistoryAction,
+  BillHistoryEntry,
+  BillImages,
+  BillPage,
+  BillPageCursor,
+  ExpenseStats,
+} from '../types';
+
+// Bill fields a user can correct after saving
+export type BillUpdate = Partial<Pick<Bill, BillField>>;
+
+export interface BillPageOptions {
+  pageSize?: number;
+  // Cursor returned with the previous page
+  after?: BillPageCursor | null;
+  range?: BillDateRange;
+  includeDeleted?: boolean;
+}
+
+export class BillService {
+  private static readonly DEFAULT_PAGE_SIZE = 20;
+
+  // Bills of any user with the given fingerprint, used to catch tickets shared between accounts
+  static async getBillsByFingerprint(fingerprint: string): Promise<Bill[]> {
+    try {
+      return await Repositories.bills.listByFingerprint(fingerprint);
+    } catch (error) {
+      console.error('Error getting bills by fingerprint:', error);
+      throw error;
+    }
+  }
+
+  // Save a bill with its derived fields. With an id the write is idempotent: if that bill already exists
+  // (an earlier attempt reached the server) it is left untouched.
+  static async saveBill(bill: Omit<Bill, 'id' | 'createdAt'>, id?: string): Promise<string> {
+    try {
+      const distanceKm = bill.distanceKm ?? DistanceService.between(bill.from, bill.to);
+      const co2BaselineMode = bill.co2BaselineMode ?? (await Co2Service.getBaselineMode());
+      // syncState only describes the local copy
+      const { syncState, ...storedBill } = bill;
+      return await Repositories.bills.create(
+        {
+          ...storedBill,
+          fingerprint: bill.fingerprint ?? BillFingerprint.compute(bill),
+          // Only store a distance and savings when the stations are known
+          ...(distanceKm !== null && distanceKm !== undefined
+            ? {
+                distanceKm,
+                co2BaselineMode,
+                co2SavedGrams: bill.co2SavedGrams ?? Co2Service.savedGrams(distanceKm, co2BaselineMode),
+              }
+            : {}),
+        },
+        id,
+      );
+    } catch (error) {
+      console.error('Error saving bill:', error);
+      throw error;
+    }
+  }
+
+  // Get all user bills, newest ticket first; soft-deleted bills only when asked for
+  static async getUserBills(userId: string, includeDeleted = false, range?: BillDateRange): Promise<Bill[]> {
+    try {
+      const bills = await Repositories.bills.listByUser(userId, range);
+      return bills.filter((bill) => includeDeleted || !bill.deletedAt);
+    } catch (error) {
+      console.error('Error getting user bills:', error);
+      throw error;
+    }
+  }
+
+  // One page of user bills, newest ticket first. Soft-deleted bills are filtered out after the query
+  // (live bills have no deletedAt to query on), so a page can hold fewer than pageSize bills while more
+  // remain. Pages left empty by the filter are skipped, so an empty page always means the end.
+  static async getUserBillsPage(userId: string, options: BillPageOptions = {}): Promise<BillPage> {
+    try {
+      let after = options.after;
+      for (;;) {
+        const page = await Repositories.bills.pageByUser(userId, {
+          pageSize: options.pageSize ?? this.DEFAULT_PAGE_SIZE,
+          range: options.range,
+          after,
+        });
+        const bills = page.bills.filter((bill) => options.includeDeleted || !bill.deletedAt);
+        if (bills.length > 0 || !page.cursor) {
+          return { bills, cursor: page.cursor };
+        }
+        after = page.cursor;
+      }
+    } catch (error) {
+      console.error('Error getting user bills page:', error);
+      throw error;
+    }
+  }
+
+  static async getBill(billId: string): Promise<Bill | null> {
+    try {
+      return await Repositories.bills.get(billId);
+    } catch (error) {
+      console.error('Error getting bill:', error);
+      throw error;
+    }
+  }
+
+  // Correct a saved bill and record the old and new values in its history; returns what changed
+  static async updateBill(billId: string, updates: BillUpdate, userId: string): Promise<BillEdits> {
+    try {
+      const current = await this.getBill(billId);
+      if (!current) {
+        throw new Error(`Bill ${billId} not found`);
+      }
+
+      const changes = this.diffFields(current, updates);
+      if (Object.keys(changes).length === 0) {
+        return changes;
+      }
+
+      // Distance, savings and fingerprint follow the corrected fields
+      const next = { ...current, ...updates };
+      const distanceKm = DistanceService.between(next.from, next.to);
+      const co2BaselineMode = current.co2BaselineMode ?? (await Co2Service.getBaselineMode());
+      const changedValues = Object.fromEntries(
+        Object.keys(changes).map((field) => [field, updates[field as BillField] ?? null]),
+      );
+
+      await Repositories.bills.update(
+        billId,
+        {
+          ...changedValues,
+          fingerprint: BillFingerprint.compute(next),
+          ...(distanceKm !== null
+            ? { distanceKm, co2BaselineMode, co2SavedGrams: Co2Service.savedGrams(distanceKm, co2BaselineMode) }
+            : { distanceKm: null, co2BaselineMode: null, co2SavedGrams: null }),
+          updatedAt: new Date(),
+        },
+        this.historyEntry('update', userId, changes),
+      );
+
+      return changes;
+    } catch (error) {
+      console.error('Error updating bill:', error);
+      throw error;
+    }
+  }
+
+  // Soft delete: the bill is kept, hidden from lists and stats, and can be restored
+  static async deleteBill(billId: string, userId: string): Promise<void> {
+    try {
+      await Repositories.bills.update(billId, { deletedAt: new Date() }, this.historyEntry('delete', userId));
+    } catch (error) {
+      console.error('Error deleting bill:', error);
+      throw error;
+    }
+  }
+
+  static async restoreBill(billId: string, userId: string): Promise<void> {
+    try {
+      await Repositories.bills.update(billId, { deletedAt: null }, this.historyEntry('restore', userId));
+    } catch (error) {
+      console.error('Error restoring bill:', error);
+      throw error;
+    }
+  }
+
+  static async attachImages(billId: string, images: BillImages): Promise<void> {
+    try {
+      await Repositories.bills.attachImages(billId, images);
+    } catch (error) {
+      console.error('Error attaching bill images:', error);
+      throw error;
+    }
+  }
+
+  // Audit trail of a bill, newest first
+  static async getBillHistory(billId: string): Promise<BillHistoryEntry[]> {
+    try {
+      return await Repositories.bills.getHistory(billId);
+    } catch (error) {
+      console.error('Error getting bill history:', error);
+      throw error;
+    }
+  }
+
+  // Calculate expense statistics, optionally for a date range, from server-side totals rather than the
+  // user's whole bill history
+  static async getExpenseStats(userId: string, range?: BillDateRange): Promise<ExpenseStats> {
+    try {
+      const totals = await Repositories.bills.totalsByUser(userId, range);
+      return {
+        totalExpenses: totals.amount,
+        totalDistance: totals.distanceKm,
+        averageExpense: totals.count > 0 ? totals.amount / totals.count : 0,
+        billCount: totals.count,
+        billsWithoutDistance: totals.count - totals.billsWithDistance,
+        totalCo2Saved: totals.co2SavedGrams,
+      };
+    } catch (error) {
+      console.error('Error getting expense stats:', error);
+      throw error;
+    }
+  }
+
+  // History entries are only ever added, together with the change they describe
+  private static historyEntry(
+    action: BillHistoryAction,
+    userId: string,
+    changes: BillEdits = {},
+  ): Omit<BillHistoryEntry, 'id' | 'createdAt'> {
+    return { action, userId, changes };
+  }
+
+  private static diffFields(current: Bill, updates: BillUpdate): BillEdits {
+    return (Object.keys(updates) as BillField[]).reduce<BillEdits>((changes, field) => {
+      const before = this.historyValue(current[field]);
+      const after = this.historyValue(updates[field]);
+      if (before !== after) {
+        changes[field] = { original: before, edited: after };
+      }
+      return changes;
+    }, {});
+  }
+
+  private static historyValue(value: string | number | Date | undefined): string | number | null {
+    if (value instanceof Date) return value.toISOString();
+    if (value === undefined || value === '') return null;
+    return value;
+  }
+}
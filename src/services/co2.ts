@@ -0,0 +1,75 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Bill, Co2BaselineMode } from '../types';
+
+// Grams of CO2 emitted per passenger-km.
+// Road modes follow the India GHG Program road transport emission factors (2015): petrol car 0.130 kg/km
+// and two-wheeler 0.035 kg/km with a single occupant, CNG auto-rickshaw 0.107 kg/km shared by ~1.5 passengers.
+// Metro is the traction energy per passenger-km on Indian metros multiplied by the CEA grid emission factor.
+export const EMISSION_FACTORS_G_PER_KM: Record<Co2BaselineMode | 'metro', number> = {
+  car: 130,
+  twoWheeler: 35,
+  autoRickshaw: 71,
+  metro: 20,
+};
+
+export const CO2_BASELINE_LABELS: Record<Co2BaselineMode, string> = {
+  car: 'Car',
+  twoWheeler: 'Two-wheeler',
+  autoRickshaw: 'Auto-rickshaw',
+};
+
+export class Co2Service {
+  private static readonly STORAGE_KEY = 'co2_baseline_mode';
+  static readonly DEFAULT_BASELINE: Co2BaselineMode = 'car';
+
+  // CO2 avoided by riding the metro instead of the baseline mode for the same distance
+  static savedGrams(distanceKm: number, mode: Co2BaselineMode): number {
+    const perKm = EMISSION_FACTORS_G_PER_KM[mode] - EMISSION_FACTORS_G_PER_KM.metro;
+    return Math.round(Math.max(0, perKm * distanceKm));
+  }
+
+  // Savings for a bill: recomputed from distance when the mode differs, else the stored value,
+  // falling back to the ticket-printed figure only for bills without any distance
+  static gramsForBill(
+    bill: Pick<Bill, 'distanceKm' | 'co2SavedGrams' | 'co2BaselineMode' | 'co2Saved'>,
+    mode?: Co2BaselineMode,
+  ): number {
+    if (bill.distanceKm !== undefined) {
+      const effectiveMode = mode ?? bill.co2BaselineMode ?? Co2Service.DEFAULT_BASELINE;
+      if (bill.co2SavedGrams !== undefined && effectiveMode === bill.co2BaselineMode) {
+        return bill.co2SavedGrams;
+      }
+      return Co2Service.savedGrams(bill.distanceKm, effectiveMode);
+    }
+    if (bill.co2SavedGrams !== undefined) {
+      return bill.co2SavedGrams;
+    }
+    return Co2Service.printedGrams(bill.co2Saved) ?? 0;
+  }
+
+  // The figure printed on the ticket (e.g. "0.59 g CO2"), kept as a cross-check
+  static printedGrams(printed: string | undefined): number | undefined {
+    const match = printed?.match(/(\d+(?:\.\d+)?)/);
+    return match ? parseFloat(match[1]) : undefined;
+  }
+
+  static format(grams: number): string {
+    return grams >= 1000 ? `${(grams / 1000).toFixed(2)} kg` : `${grams.toFixed(grams < 10 ? 2 : 0)} g`;
+  }
+
+  static async getBaselineMode(): Promise<Co2BaselineMode> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      if (stored && stored in CO2_BASELINE_LABELS) {
+        return stored as Co2BaselineMode;
+      }
+    } catch (error) {
+      console.error('Error reading CO2 baseline mode:', error);
+    }
+    return this.DEFAULT_BASELINE;
+  }
+
+  static async setBaselineMode(mode: Co2BaselineMode): Promise<void> {
+    await AsyncStorage.setItem(this.STORAGE_KEY, mode);
+  }
+}
@@ -0,0 +1,62 @@
+import { StationService } from './stations';
+import { MetroLine, MetroStation } from '../types';
+
+// Track distance in km between consecutive stations, in line sequence order.
+// Purple: PCMC → Swargate (17.4 km), Aqua: Vanaz → Ramwadi (15.7 km).
+const SEGMENT_DISTANCES_KM: Record<MetroLine, number[]> = {
+  purple: [1.7, 1.2, 1.4, 1.3, 1.2, 1.3, 1.1, 1.9, 1.8, 0.9, 1.1, 0.7, 1.8],
+  aqua: [0.9, 0.8, 0.9, 1.0, 0.6, 0.7, 0.8, 1.0, 1.4, 0.9, 0.8, 1.1, 1.4, 1.4, 2.0],
+};
+
+export class DistanceService {
+  // Shortest track distance between two stations (names, codes or noisy OCR text), or null if either is unknown
+  static between(from: string | undefined, to: string | undefined): number | null {
+    if (!from || !to) return null;
+
+    const origin = StationService.match(from)?.station;
+    const destination = StationService.match(to)?.station;
+    if (!origin || !destination) return null;
+
+    return DistanceService.betweenStations(origin, destination);
+  }
+
+  static betweenStations(origin: MetroStation, destination: MetroStation): number | null {
+    if (origin.code === destination.code) return 0;
+
+    const candidates: number[] = [];
+
+    // Same line: ride straight through
+    for (const line of Object.keys(SEGMENT_DISTANCES_KM) as MetroLine[]) {
+      const direct = DistanceService.alongLine(line, origin, destination);
+      if (direct !== null) candidates.push(direct);
+    }
+
+    // Different lines: change at an interchange served by both (Civil Court)
+    const interchanges = StationService.all().filter((station) => Object.keys(station.lines).length > 1);
+    for (const interchange of interchanges) {
+      for (const firstLine of Object.keys(origin.lines) as MetroLine[]) {
+        for (const secondLine of Object.keys(destination.lines) as MetroLine[]) {
+          if (firstLine === secondLine) continue;
+          const firstLeg = DistanceService.alongLine(firstLine, origin, interchange);
+          const secondLeg = DistanceService.alongLine(secondLine, interchange, destination);
+          if (firstLeg !== null && secondLeg !== null) {
+            candidates.push(firstLeg + secondLeg);
+          }
+        }
+      }
+    }
+
+    if (candidates.length === 0) return null;
+    return parseFloat(Math.min(...candidates).toFixed(1));
+  }
+
+  private static alongLine(line: MetroLine, a: MetroStation, b: MetroStation): number | null {
+    const start = a.lines[line];
+    const end = b.lines[line];
+    if (start === undefined || end === undefined) return null;
+
+    const [low, high] = start < end ? [start, end] : [end, start];
+    // Sequence numbers are 1-based; segment i joins stations i + 1 and i + 2
+    return SEGMENT_DISTANCES_KM[line].slice(low - 1, high - 1).reduce((sum, km) => sum + km, 0);
+  }
+}
@@ -0,0 +1,107 @@
+import { BillService } from './bills';
+import { BillFingerprint } from '../utils/billFingerprint';
+import { ImageHash } from '../utils/imageHash';
+import { Timeout } from '../utils/timeout';
+import { Bill, BillDateRange, DuplicateMatch } from '../types';
+
+// Without connectivity the check is skipped after this long and left to the sync queue
+const CHECK_TIMEOUT_MS = 8000;
+
+// Photos of the same ticket differ by a few bits; unrelated tickets share the layout but not the details
+const IMAGE_HASH_MAX_DISTANCE = 6;
+
+// Only the user's bills dated this close to the candidate are compared. A fingerprint match needs the same
+// day; the slack leaves room for a photo whose date was misread.
+const DATE_WINDOW_DAYS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Also look for the same ticket saved by other users (shared or resold tickets). Needs Firestore rules that let
+// a user query bills by fingerprint across accounts, so it is off unless EXPO_PUBLIC_DUPLICATES_ACROSS_USERS=true
+const CHECK_OTHER_USERS = process.env.EXPO_PUBLIC_DUPLICATES_ACROSS_USERS === 'true';
+
+type CandidateBill = Pick<Bill, 'billNumber' | 'date' | 'amount' | 'from' | 'to' | 'imageHash'> &
+  Pick<Partial<Bill>, 'fieldConfidence'>;
+
+export class DuplicateService {
+  // Earlier bill the candidate duplicates, or null. The user's own bills are matched by fingerprint
+  // and by image hash; other users' bills only by fingerprint, when checkOtherUsers is set.
+  static async findDuplicate(
+    userId: string,
+    candidate: CandidateBill,
+    checkOtherUsers = CHECK_OTHER_USERS,
+  ): Promise<DuplicateMatch | null> {
+    const fingerprint = BillFingerprint.compute(candidate);
+    const userBills = await BillService.getUserBills(userId, false, DuplicateService.dateWindow(candidate.date));
+
+    // Recomputed rather than read from the bill, so bills saved under an older fingerprint format still match
+    const sameTicket = userBills.find((bill) => BillFingerprint.sameTicket(bill, candidate));
+    if (sameTicket) {
+      return { bill: sameTicket, reason: 'fingerprint', sameUser: true };
+    }
+
+    if (candidate.imageHash) {
+      const samePhoto = userBills.find(
+        (bill) => bill.imageHash && ImageHash.distance(bill.imageHash, candidate.imageHash!) <= IMAGE_HASH_MAX_DISTANCE,
+      );
+      if (samePhoto) {
+        return { bill: samePhoto, reason: 'image', sameUser: true };
+      }
+    }
+
+    if (checkOtherUsers) {
+      const shared = await DuplicateService.findSharedTicket(userId, fingerprint);
+      if (shared) {
+        return { bill: shared, reason: 'fingerprint', sameUser: false };
+      }
+    }
+
+    return null;
+  }
+
+  // findDuplicate for the save flow: `checked` is false when the server could not be reached in time
+  static async check(
+    userId: string,
+    candidate: CandidateBill,
+  ): Promise<{ match: DuplicateMatch | null; checked: boolean }> {
+    try {
+      const match = await Timeout.wrap(
+        DuplicateService.findDuplicate(userId, candidate),
+        CHECK_TIMEOUT_MS,
+        'Duplicate check',
+      );
+      return { match, checked: true };
+    } catch (error) {
+      console.warn('⚠️ Duplicate check skipped:', error);
+      return { match: null, checked: false };
+    }
+  }
+
+  // A failed cross-user lookup (e.g. rules that forbid it) must not block the user's own check
+  private static async findSharedTicket(userId: string, fingerprint: string): Promise<Bill | undefined> {
+    try {
+      return (await BillService.getBillsByFingerprint(fingerprint)).find((bill) => bill.userId !== userId);
+    } catch (error) {
+      console.warn('⚠️ Cross-user duplicate check failed:', error);
+      return undefined;
+    }
+  }
+
+  // A ticket without a readable date can only be compared with the bills of the last few days
+  private static dateWindow(date: Date): BillDateRange {
+    const center = !date || Number.isNaN(date.getTime()) ? Date.now() : date.getTime();
+    return {
+      from: new Date(center - DATE_WINDOW_DAYS * DAY_MS),
+      to: new Date(center + DATE_WINDOW_DAYS * DAY_MS),
+    };
+  }
+
+  static describe(match: DuplicateMatch): string {
+    const savedOn = match.bill.createdAt.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+    if (!match.sameUser) {
+      return `This ticket was already saved by another account on ${savedOn}.`;
+    }
+    return match.reason === 'image'
+      ? `A photo that looks like this ticket was already saved on ${savedOn}.`
+      : `This ticket was already saved on ${savedOn}.`;
+  }
+}
@@ -1,11 +1,11 @@
-import { initializeApp } from 'firebase/app';
-import { getFirestore } from 'firebase/firestore';
-import { getStorage } from 'firebase/storage';
-import { initializeAuth, getReactNativePersistence } from 'firebase/auth';
+import { initializeApp, FirebaseApp } from 'firebase/app';
+import { getFirestore, connectFirestoreEmulator, Firestore } from 'firebase/firestore';
+import { getStorage, connectStorageEmulator, FirebaseStorage } from 'firebase/storage';
+import { initializeAuth, getReactNativePersistence, connectAuthEmulator, Auth } from 'firebase/auth';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 // Firebase configuration using environment variables
-const firebaseConfig = {
+export const firebaseConfig = {
   apiKey: process.env.EXPO_PUBLIC_FIREBASE_API_KEY,
   authDomain: process.env.EXPO_PUBLIC_FIREBASE_AUTH_DOMAIN,
   projectId: process.env.EXPO_PUBLIC_FIREBASE_PROJECT_ID,
@@ -15,24 +15,49 @@ const firebaseConfig = {
   measurementId: process.env.EXPO_PUBLIC_FIREBASE_MEASUREMENT_ID,
 };
 
-console.log('Initializing Firebase...');
-console.log('Project ID:', firebaseConfig.projectId);
-
-// Initialize Firebase
-let app;
-try {
-  app = initializeApp(firebaseConfig);
-  console.log('✅ Firebase initialized successfully');
-} catch (error) {
-  console.error('❌ Firebase initialization error:', error);
-  throw error;
+// Host running the Firebase Local Emulator Suite (e.g. 10.0.2.2 from the Android emulator)
+export const EMULATOR_HOST = process.env.EXPO_PUBLIC_FIREBASE_EMULATOR_HOST;
+
+interface FirebaseServices {
+  app: FirebaseApp;
+  db: Firestore;
+  storage: FirebaseStorage;
+  auth: Auth;
 }
 
-// Initialize services
-export const db = getFirestore(app);
-export const storage = getStorage(app);
-export const auth = initializeAuth(app, {
-  persistence: getReactNativePersistence(AsyncStorage)
-});
+let services: FirebaseServices | null = null;
+
+// Initialised on first use, so the in-memory backend runs without a Firebase project
+export const getFirebase = (): FirebaseServices => {
+  if (services) return services;
+
+  console.log('Initializing Firebase...');
+  console.log('Project ID:', firebaseConfig.projectId);
+
+  let app: FirebaseApp;
+  try {
+    app = initializeApp(firebaseConfig);
+    console.log('✅ Firebase initialized successfully');
+  } catch (error) {
+    console.error('❌ Firebase initialization error:', error);
+    throw error;
+  }
 
-export default app;
+  const db = getFirestore(app);
+  const storage = getStorage(app);
+  const auth = initializeAuth(app, {
+    persistence: getReactNativePersistence(AsyncStorage)
+  });
+
+  if (EMULATOR_HOST) {
+    connectFirestoreEmulator(db, EMULATOR_HOST, 8080);
+    connectStorageEmulator(storage, EMULATOR_HOST, 9199);
+    connectAuthEmulator(auth, `http://${EMULATOR_HOST}:9099`);
+    // The auth emulator accepts any reCAPTCHA token
+    auth.settings.appVerificationDisabledForTesting = true;
+    console.log('🧪 Using Firebase emulators at', EMULATOR_HOST);
+  }
+
+  services = { app, db, storage, auth };
+  return services;
+};
@@ -0,0 +1,186 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import { File } from 'expo-file-system';
+import { BillService } from './bills';
+import { StorageService } from './storage';
+import { ImageCompressor } from '../utils/imageCompressor';
+import { PendingImageUpload } from '../types';
+
+// Share of a bill's progress taken by the full image; the thumbnail is the rest
+const FULL_IMAGE_SHARE = 0.9;
+// Queue runs a photo gets before it is dropped; each run already retries within StorageService
+const MAX_QUEUE_ATTEMPTS = 5;
+
+type ProgressListener = (progress: Record<string, number>) => void;
+
+// Ticket photos of saved bills, uploaded in the background so saving a capture never waits for Storage
+export class ImageUploadService {
+  private static readonly STORAGE_KEY = 'pending_image_uploads';
+
+  private static processing: Promise<void> | null = null;
+  private static listeners = new Set<ProgressListener>();
+  // 0..1 per bill id, for every bill whose photo is still queued
+  private static progress: Record<string, number> = {};
+  // Same single-writer chain as the bill queue
+  private static writes: Promise<unknown> = Promise.resolve();
+
+  // Uploads left over from an earlier run are retried now and whenever the app returns to the foreground
+  static start(): () => void {
+    ImageUploadService.processQueue();
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        ImageUploadService.processQueue();
+      }
+    });
+    return () => subscription.remove();
+  }
+
+  // Takes over the local image file; returns once the upload is queued, not when it finishes
+  static async enqueue(billId: string, userId: string, imageUri: string): Promise<void> {
+    await ImageUploadService.mutate((queue) => [
+      ...queue.filter((item) => item.billId !== billId),
+      { billId, userId, imageUri, attempts: 0 },
+    ]);
+    ImageUploadService.processQueue();
+  }
+
+  // Called with the progress of every queued ticket image; a bill drops out once its URLs are on the bill
+  static subscribe(listener: ProgressListener): () => void {
+    ImageUploadService.listeners.add(listener);
+    ImageUploadService.read().then((queue) => {
+      ImageUploadService.trackQueue(queue);
+      listener({ ...ImageUploadService.progress });
+    });
+    return () => {
+      ImageUploadService.listeners.delete(listener);
+    };
+  }
+
+  static processQueue(): Promise<void> {
+    if (!ImageUploadService.processing) {
+      ImageUploadService.processing = ImageUploadService.runQueue().finally(() => {
+        ImageUploadService.processing = null;
+      });
+    }
+    return ImageUploadService.processing;
+  }
+
+  // Queued uploads follow their owner when an account moves to a new id
+  static reassignUser(fromUserId: string, toUserId: string): Promise<void> {
+    return ImageUploadService.mutate((queue) =>
+      queue.map((item) => (item.userId === fromUserId ? { ...item, userId: toUserId } : item)),
+    );
+  }
+
+  // Storage path of a bill's ticket image, one folder per user
+  static imagePath(userId: string, billId: string, variant: 'full' | 'thumbnail'): string {
+    return `bills/${userId}/${billId}${variant === 'thumbnail' ? '_thumb' : ''}.jpg`;
+  }
+
+  // Re-reads the queue after every upload so photos enqueued during the run are picked up by it
+  private static async runQueue(): Promise<void> {
+    const tried = new Set<string>();
+    for (;;) {
+      const next = (await ImageUploadService.read()).find((item) => !tried.has(item.billId));
+      if (!next) return;
+      tried.add(next.billId);
+      await ImageUploadService.upload(next);
+    }
+  }
+
+  private static async upload(item: PendingImageUpload): Promise<void> {
+    const file = new File(item.imageUri);
+    if (!file.exists) {
+      console.warn('⚠️ Ticket image for bill', item.billId, 'is gone; dropping its upload');
+      await ImageUploadService.remove(item.billId);
+      return;
+    }
+
+    let thumbnailUri: string | null = null;
+    try {
+      thumbnailUri = await ImageCompressor.compress(item.imageUri, 'thumbnail');
+      const imageUrl = await StorageService.uploadImage(
+        item.imageUri,
+        ImageUploadService.imagePath(item.userId, item.billId, 'full'),
+        (state) => ImageUploadService.setProgress(item.billId, state.progress * FULL_IMAGE_SHARE),
+      );
+      const thumbnailUrl = await StorageService.uploadImage(
+        thumbnailUri,
+        ImageUploadService.imagePath(item.userId, item.billId, 'thumbnail'),
+        (state) =>
+          ImageUploadService.setProgress(item.billId, FULL_IMAGE_SHARE + state.progress * (1 - FULL_IMAGE_SHARE)),
+      );
+      await BillService.attachImages(item.billId, { imageUrl, thumbnailUrl });
+
+      await ImageUploadService.remove(item.billId);
+      file.delete();
+      console.log('🖼️ Uploaded ticket image for bill', item.billId);
+    } catch (error: any) {
+      const attempts = item.attempts + 1;
+      if (attempts >= MAX_QUEUE_ATTEMPTS) {
+        console.warn('⚠️ Giving up on ticket image for bill', item.billId, 'after', attempts, 'attempts:', error);
+        await ImageUploadService.remove(item.billId);
+        file.delete();
+        return;
+      }
+
+      console.warn('⚠️ Ticket image upload failed for bill', item.billId, error);
+      ImageUploadService.setProgress(item.billId, 0);
+      await ImageUploadService.mutate((queue) =>
+        queue.map((queued) =>
+          queued.billId === item.billId
+            ? { ...queued, attempts, lastError: error?.message ?? String(error) }
+            : queued,
+        ),
+      );
+    } finally {
+      if (thumbnailUri) {
+        const thumbnail = new File(thumbnailUri);
+        if (thumbnail.exists) thumbnail.delete();
+      }
+    }
+  }
+
+  private static remove(billId: string): Promise<void> {
+    return ImageUploadService.mutate((queue) => queue.filter((item) => item.billId !== billId));
+  }
+
+  private static async read(): Promise<PendingImageUpload[]> {
+    try {
+      const stored = await AsyncStorage.getItem(ImageUploadService.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Error reading image uploads:', error);
+      return [];
+    }
+  }
+
+  private static mutate(change: (queue: PendingImageUpload[]) => PendingImageUpload[]): Promise<void> {
+    const write = ImageUploadService.writes.then(async () => {
+      const queue = change(await ImageUploadService.read());
+      await AsyncStorage.setItem(ImageUploadService.STORAGE_KEY, JSON.stringify(queue));
+      ImageUploadService.trackQueue(queue);
+      ImageUploadService.notify();
+    });
+    ImageUploadService.writes = write.catch((error) => console.error('Error writing image uploads:', error));
+    return write;
+  }
+
+  private static setProgress(billId: string, value: number): void {
+    if (!(billId in ImageUploadService.progress)) return;
+    ImageUploadService.progress = { ...ImageUploadService.progress, [billId]: value };
+    ImageUploadService.notify();
+  }
+
+  // Keep progress for queued bills only
+  private static trackQueue(queue: PendingImageUpload[]): void {
+    ImageUploadService.progress = Object.fromEntries(
+      queue.map((item) => [item.billId, ImageUploadService.progress[item.billId] ?? 0]),
+    );
+  }
+
+  private static notify(): void {
+    const progress = { ...ImageUploadService.progress };
+    ImageUploadService.listeners.forEach((listener) => listener(progress));
+  }
+}
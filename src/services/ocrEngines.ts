@@ -0,0 +1,113 @@
+import TextRecognition, { TextRecognitionScript } from '@react-native-ml-kit/text-recognition';
+import { PaddleOCRService } from './paddleOcr';
+import { OCREngineId, OCRLine } from '../types';
+
+export interface OCREngine {
+  id: OCREngineId;
+  // False when the engine cannot run in this build, e.g. its models are missing
+  isAvailable(): boolean;
+  recognize(imageUri: string): Promise<OCRLine[]>;
+}
+
+const DEVANAGARI_PATTERN = /[ऀ-ॿ]/;
+// Characters expected on the English half of a metro ticket
+const LATIN_TICKET_PATTERN = /[A-Za-z0-9 .,:;\/\-₹()#]/;
+
+// ML Kit does not report confidences, so lines are scored by how plausible the text is for the script
+export class MLKitOCREngine implements OCREngine {
+  readonly id: OCREngineId;
+
+  constructor(private readonly script: TextRecognitionScript.LATIN | TextRecognitionScript.DEVANAGARI) {
+    this.id = script === TextRecognitionScript.LATIN ? 'mlkit-latin' : 'mlkit-devanagari';
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async recognize(imageUri: string): Promise<OCRLine[]> {
+    const result = await TextRecognition.recognize(imageUri, this.script);
+
+    return result.blocks.flatMap((block) =>
+      block.lines.map((line) => ({
+        text: line.text,
+        confidence: this.scoreLine(line.text),
+        box: line.frame
+          ? { x: line.frame.left, y: line.frame.top, width: line.frame.width, height: line.frame.height }
+          : { x: 0, y: 0, width: 0, height: 0 },
+        engine: this.id,
+      })),
+    );
+  }
+
+  private scoreLine(text: string): number {
+    const characters = Array.from(text.replace(/\s/g, ''));
+    if (characters.length === 0) return 0;
+
+    if (this.script === TextRecognitionScript.DEVANAGARI) {
+      // The Devanagari model also reads Latin, but the Latin model is better at it
+      return DEVANAGARI_PATTERN.test(text) ? 0.85 : 0.7;
+    }
+
+    // The Latin model turns Marathi text into noise, which shows up as unexpected characters
+    const plausible = characters.filter((char) => LATIN_TICKET_PATTERN.test(char)).length;
+    return 0.8 * (plausible / characters.length);
+  }
+}
+
+export class PaddleOCREngine implements OCREngine {
+  readonly id: OCREngineId = 'paddle';
+
+  isAvailable(): boolean {
+    return PaddleOCRService.isAvailable();
+  }
+
+  async recognize(imageUri: string): Promise<OCRLine[]> {
+    const lines = await PaddleOCRService.recognize(imageUri);
+    return lines.map((line) => ({ ...line, engine: this.id }));
+  }
+}
+
+// Returns canned lines regardless of the image, for exercising the parsing heuristics without a device
+export class StubOCREngine implements OCREngine {
+  readonly id: OCREngineId = 'stub';
+
+  constructor(private lines: OCRLine[] = []) {}
+
+  setLines(lines: OCRLine[]) {
+    this.lines = lines;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async recognize(): Promise<OCRLine[]> {
+    return this.lines.map((line) => ({ ...line, engine: this.id }));
+  }
+}
+
+export class OCREngineRegistry {
+  private static readonly engines = new Map<OCREngineId, OCREngine>([
+    ['mlkit-latin', new MLKitOCREngine(TextRecognitionScript.LATIN)],
+    ['mlkit-devanagari', new MLKitOCREngine(TextRecognitionScript.DEVANAGARI)],
+    ['paddle', new PaddleOCREngine()],
+    ['stub', new StubOCREngine()],
+  ]);
+
+  static register(engine: OCREngine) {
+    OCREngineRegistry.engines.set(engine.id, engine);
+  }
+
+  static get(id: OCREngineId): OCREngine {
+    const engine = OCREngineRegistry.engines.get(id);
+    if (!engine) {
+      throw new Error(`OCR engine "${id}" is not registered`);
+    }
+    return engine;
+  }
+
+  static isAvailable(id: OCREngineId): boolean {
+    return OCREngineRegistry.engines.get(id)?.isAvailable() ?? false;
+  }
+}
@@ -0,0 +1,50 @@
+import { BoundingBox, OCRLine } from '../types';
+
+// Two lines whose boxes overlap at least this much (intersection over union) are the same text region
+const SAME_REGION_IOU = 0.5;
+
+export class OCRFusion {
+  // Merge the lines from several engines by position, keeping the most confident reading of each region
+  static fuse(results: OCRLine[][]): OCRLine[] {
+    const candidates = results
+      .flat()
+      .filter((line) => line.text.trim().length > 0)
+      .sort((a, b) => b.confidence - a.confidence);
+
+    const accepted: OCRLine[] = [];
+    for (const line of candidates) {
+      const duplicate = accepted.some(
+        (kept) => OCRFusion.intersectionOverUnion(kept.box, line.box) >= SAME_REGION_IOU,
+      );
+      if (!duplicate) {
+        accepted.push(line);
+      }
+    }
+
+    return OCRFusion.sortReadingOrder(accepted);
+  }
+
+  static toText(lines: OCRLine[]): string {
+    return lines.map((line) => line.text).join('\n');
+  }
+
+  // Top-to-bottom, then left-to-right for lines sharing a row
+  static sortReadingOrder(lines: OCRLine[]): OCRLine[] {
+    return [...lines].sort((a, b) => {
+      const centerA = a.box.y + a.box.height / 2;
+      const centerB = b.box.y + b.box.height / 2;
+      const sameRow = Math.abs(centerA - centerB) < Math.min(a.box.height, b.box.height) / 2;
+      return sameRow ? a.box.x - b.box.x : a.box.y - b.box.y;
+    });
+  }
+
+  private static intersectionOverUnion(a: BoundingBox, b: BoundingBox): number {
+    const overlapWidth = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+    const overlapHeight = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+    if (overlapWidth <= 0 || overlapHeight <= 0) return 0;
+
+    const intersection = overlapWidth * overlapHeight;
+    const union = a.width * a.height + b.width * b.height - intersection;
+    return union > 0 ? intersection / union : 0;
+  }
+}
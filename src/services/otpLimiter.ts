@@ -0,0 +1,106 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { OtpStatus } from '../types';
+
+interface OtpAttemptRecord {
+  // Wrong codes since the last lockout
+  failedAttempts: number;
+  // Codes sent since the last lockout
+  sends: number;
+  // Lockouts so far; each one lasts twice as long as the previous
+  lockouts: number;
+  lockedUntil: number;
+  lastSentAt: number;
+}
+
+const RESEND_COOLDOWN_MS = 30 * 1000;
+const MAX_FAILED_ATTEMPTS = 5;
+const MAX_SENDS = 5;
+// 1 min, 2 min, 4 min ... capped at a day
+const LOCKOUT_BASE_MS = 60 * 1000;
+const LOCKOUT_MAX_MS = 24 * 60 * 60 * 1000;
+
+const EMPTY_RECORD: OtpAttemptRecord = { failedAttempts: 0, sends: 0, lockouts: 0, lockedUntil: 0, lastSentAt: 0 };
+
+// Per-number OTP limits, kept in AsyncStorage so restarting the app does not reset them
+export class OtpLimiter {
+  private static readonly STORAGE_KEY = 'otp_attempts';
+
+  static async status(phoneNumber: string): Promise<OtpStatus> {
+    return OtpLimiter.toStatus(await OtpLimiter.read(phoneNumber));
+  }
+
+  // Count a code being sent; sending more than MAX_SENDS codes without signing in locks the number
+  static async recordSend(phoneNumber: string): Promise<OtpStatus> {
+    const record = await OtpLimiter.read(phoneNumber);
+    const next =
+      record.sends >= MAX_SENDS
+        ? OtpLimiter.lock(record)
+        : { ...record, sends: record.sends + 1, lastSentAt: Date.now() };
+    await OtpLimiter.write(phoneNumber, next);
+    return OtpLimiter.toStatus(next);
+  }
+
+  // Take back a send whose code never went out. The cooldown had passed before that send (sendOTP checks it
+  // first), so clearing lastSentAt restores it.
+  static async revertSend(phoneNumber: string): Promise<void> {
+    const record = await OtpLimiter.read(phoneNumber);
+    if (record.sends === 0) return;
+    await OtpLimiter.write(phoneNumber, { ...record, sends: record.sends - 1, lastSentAt: 0 });
+  }
+
+  static async recordFailure(phoneNumber: string): Promise<OtpStatus> {
+    const record = await OtpLimiter.read(phoneNumber);
+    const failedAttempts = record.failedAttempts + 1;
+    const next =
+      failedAttempts >= MAX_FAILED_ATTEMPTS ? OtpLimiter.lock(record) : { ...record, failedAttempts };
+    await OtpLimiter.write(phoneNumber, next);
+    return OtpLimiter.toStatus(next);
+  }
+
+  static async recordSuccess(phoneNumber: string): Promise<void> {
+    const records = await OtpLimiter.readAll();
+    delete records[phoneNumber];
+    await AsyncStorage.setItem(OtpLimiter.STORAGE_KEY, JSON.stringify(records));
+  }
+
+  private static lock(record: OtpAttemptRecord): OtpAttemptRecord {
+    const duration = Math.min(LOCKOUT_MAX_MS, LOCKOUT_BASE_MS * 2 ** record.lockouts);
+    console.warn(`🔒 OTP locked for ${Math.round(duration / 1000)} s`);
+    return {
+      failedAttempts: 0,
+      sends: 0,
+      lockouts: record.lockouts + 1,
+      lockedUntil: Date.now() + duration,
+      lastSentAt: record.lastSentAt,
+    };
+  }
+
+  private static toStatus(record: OtpAttemptRecord): OtpStatus {
+    const now = Date.now();
+    const resendAvailableAt = record.lastSentAt + RESEND_COOLDOWN_MS;
+    return {
+      resendAvailableAt: resendAvailableAt > now ? resendAvailableAt : null,
+      lockedUntil: record.lockedUntil > now ? record.lockedUntil : null,
+      attemptsLeft: MAX_FAILED_ATTEMPTS - record.failedAttempts,
+    };
+  }
+
+  private static async read(phoneNumber: string): Promise<OtpAttemptRecord> {
+    return (await OtpLimiter.readAll())[phoneNumber] ?? EMPTY_RECORD;
+  }
+
+  private static async write(phoneNumber: string, record: OtpAttemptRecord): Promise<void> {
+    const records = await OtpLimiter.readAll();
+    await AsyncStorage.setItem(OtpLimiter.STORAGE_KEY, JSON.stringify({ ...records, [phoneNumber]: record }));
+  }
+
+  private static async readAll(): Promise<Record<string, OtpAttemptRecord>> {
+    try {
+      const stored = await AsyncStorage.getItem(OtpLimiter.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Error reading OTP attempts:', error);
+      return {};
+    }
+  }
+}
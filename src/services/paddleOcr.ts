@@ -0,0 +1,291 @@
+import { InferenceSession, Tensor } from 'onnxruntime-react-native';
+import { Directory, File, Paths } from 'expo-file-system';
+import { ImageDecoder, DecodedImage } from '../utils/imageDecoder';
+import { BoundingBox, OCRLine } from '../types';
+import detConfig from '../../assets/models/exported_det/config.json';
+import recConfig from '../../assets/models/exported_rec/config.json';
+import characterDict from '../../assets/models/character_dict.json';
+
+// PP-OCRv5 mobile models exported to ONNX. They are too large for the repo, so they are downloaded on first use
+// from EXPO_PUBLIC_PADDLE_MODELS_URL (laid out like assets/models) and kept in the document directory
+const MODELS_URL = process.env.EXPO_PUBLIC_PADDLE_MODELS_URL?.replace(/\/+$/, '');
+const MODEL_DIRECTORY = 'paddle-models';
+const DET_MODEL = 'exported_det/inference.onnx';
+const REC_MODEL = 'exported_rec/inference.onnx';
+
+// Detection input sides must be multiples of 32 (DetResizeForTest)
+const DET_STRIDE = 32;
+// Upper bound of the recogniser's dynamic width (see trt_dynamic_shapes in inference.yml)
+const REC_MAX_WIDTH = 3200;
+// Boxes smaller than this (in detection-map pixels) are discarded, as in DBPostProcess
+const MIN_BOX_SIDE = 3;
+
+interface DetectedBox extends BoundingBox {
+  score: number;
+}
+
+export class PaddleOCRService {
+  private static sessions: Promise<{ det: InferenceSession; rec: InferenceSession }> | null = null;
+  // CTC index 0 is the blank token; PP-OCRv5 appends a space character to the dictionary
+  private static readonly characters: string[] = [...(characterDict as string[]), ' '];
+
+  // Without a model source the engine is unavailable instead of failing on every photo
+  static isAvailable(): boolean {
+    return Boolean(MODELS_URL);
+  }
+
+  static async recognize(imageUri: string): Promise<OCRLine[]> {
+    const { det, rec } = await PaddleOCRService.loadSessions();
+    const image = await ImageDecoder.decode(imageUri);
+
+    const boxes = await PaddleOCRService.detect(det, image);
+    console.log(`🔍 Paddle detected ${boxes.length} text regions`);
+
+    const lines: OCRLine[] = [];
+    for (const box of boxes) {
+      const crop = ImageDecoder.crop(image, box.x, box.y, box.width, box.height);
+      const { text, confidence } = await PaddleOCRService.recognizeCrop(rec, crop);
+      if (text.trim()) {
+        lines.push({
+          text: text.trim(),
+          confidence,
+          box: { x: box.x, y: box.y, width: box.width, height: box.height },
+        });
+      }
+    }
+
+    return lines;
+  }
+
+  private static loadSessions() {
+    if (!PaddleOCRService.sessions) {
+      PaddleOCRService.sessions = (async () => {
+        const [detPath, recPath] = await Promise.all([
+          PaddleOCRService.resolveModelPath(DET_MODEL),
+          PaddleOCRService.resolveModelPath(REC_MODEL),
+        ]);
+        const [det, rec] = await Promise.all([
+          PaddleOCRService.createSession(detPath),
+          PaddleOCRService.createSession(recPath),
+        ]);
+        console.log('✅ Paddle ONNX sessions ready');
+        return { det, rec };
+      })().catch((error) => {
+        // Allow a later call to retry instead of caching the failure
+        PaddleOCRService.sessions = null;
+        throw error;
+      });
+    }
+    return PaddleOCRService.sessions;
+  }
+
+  // Downloads into a temporary file first, so an interrupted download is never taken for a model
+  private static async resolveModelPath(name: string): Promise<string> {
+    if (!MODELS_URL) {
+      throw new Error('Paddle models are not configured (EXPO_PUBLIC_PADDLE_MODELS_URL)');
+    }
+    const directory = new Directory(Paths.document, MODEL_DIRECTORY);
+    directory.create({ idempotent: true, intermediates: true });
+    const model = new File(directory, name.replace('/', '_'));
+    if (!model.exists) {
+      console.log(`⬇️ Downloading Paddle model ${name}...`);
+      const partial = new File(directory, `${model.name}.part`);
+      const downloaded = await File.downloadFileAsync(`${MODELS_URL}/${name}`, partial, { idempotent: true });
+      if (downloaded.size === 0) {
+        downloaded.delete();
+        throw new Error(`Paddle model ${name} downloaded empty`);
+      }
+      downloaded.move(model);
+    }
+    return model.uri.replace('file://', '');
+  }
+
+  // A file that ONNX Runtime cannot read is deleted so the next call downloads it again
+  private static async createSession(path: string): Promise<InferenceSession> {
+    try {
+      return await InferenceSession.create(path);
+    } catch (error) {
+      const model = new File(`file://${path}`);
+      if (model.exists) model.delete();
+      throw error;
+    }
+  }
+
+  private static async detect(session: InferenceSession, image: DecodedImage): Promise<DetectedBox[]> {
+    const { resize_long: resizeLong } = detConfig.preprocessing;
+    const ratio = resizeLong / Math.max(image.width, image.height);
+    const inputWidth = Math.max(DET_STRIDE, Math.round((image.width * ratio) / DET_STRIDE) * DET_STRIDE);
+    const inputHeight = Math.max(DET_STRIDE, Math.round((image.height * ratio) / DET_STRIDE) * DET_STRIDE);
+
+    const resized = ImageDecoder.resize(image, inputWidth, inputHeight);
+    const input = PaddleOCRService.toTensorData(resized, detConfig.preprocessing, inputWidth);
+
+    const outputs = await session.run({
+      [session.inputNames[0]]: new Tensor('float32', input, [1, 3, inputHeight, inputWidth]),
+    });
+    const probabilities = outputs[session.outputNames[0]].data as Float32Array;
+
+    const scaleX = image.width / inputWidth;
+    const scaleY = image.height / inputHeight;
+
+    return PaddleOCRService.boxesFromProbabilityMap(probabilities, inputWidth, inputHeight).map((box) => {
+      const x = Math.max(0, box.x * scaleX);
+      const y = Math.max(0, box.y * scaleY);
+      return {
+        x,
+        y,
+        width: Math.min(image.width - x, box.width * scaleX),
+        height: Math.min(image.height - y, box.height * scaleY),
+        score: box.score,
+      };
+    });
+  }
+
+  // DBPostProcess approximated with axis-aligned boxes around connected components of the binarised map
+  private static boxesFromProbabilityMap(probabilities: Float32Array, width: number, height: number): DetectedBox[] {
+    const { thresh, box_thresh: boxThresh, max_candidates: maxCandidates, unclip_ratio: unclipRatio } =
+      detConfig.postprocessing;
+
+    const labels = new Int32Array(width * height);
+    const stack: number[] = [];
+    const boxes: DetectedBox[] = [];
+    let components = 0;
+
+    for (let start = 0; start < probabilities.length && components < maxCandidates; start += 1) {
+      if (labels[start] !== 0 || probabilities[start] <= thresh) continue;
+
+      components += 1;
+      labels[start] = components;
+      stack.push(start);
+
+      let minX = width;
+      let minY = height;
+      let maxX = 0;
+      let maxY = 0;
+      let pixelCount = 0;
+      let scoreSum = 0;
+
+      while (stack.length > 0) {
+        const index = stack.pop() as number;
+        const x = index % width;
+        const y = (index - x) / width;
+
+        pixelCount += 1;
+        scoreSum += probabilities[index];
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+
+        const neighbours = [
+          x > 0 ? index - 1 : -1,
+          x < width - 1 ? index + 1 : -1,
+          y > 0 ? index - width : -1,
+          y < height - 1 ? index + width : -1,
+        ];
+        for (const neighbour of neighbours) {
+          if (neighbour >= 0 && labels[neighbour] === 0 && probabilities[neighbour] > thresh) {
+            labels[neighbour] = components;
+            stack.push(neighbour);
+          }
+        }
+      }
+
+      const boxWidth = maxX - minX + 1;
+      const boxHeight = maxY - minY + 1;
+      const score = scoreSum / pixelCount;
+      if (Math.min(boxWidth, boxHeight) < MIN_BOX_SIDE || score < boxThresh) continue;
+
+      // Unclip: grow the shrunk text kernel back by area * ratio / perimeter
+      const distance = (boxWidth * boxHeight * unclipRatio) / (2 * (boxWidth + boxHeight));
+      const x = Math.max(0, minX - distance);
+      const y = Math.max(0, minY - distance);
+      boxes.push({
+        x,
+        y,
+        width: Math.min(width, maxX + 1 + distance) - x,
+        height: Math.min(height, maxY + 1 + distance) - y,
+        score,
+      });
+    }
+
+    return boxes;
+  }
+
+  // Text recognition (RecResizeImg → NormalizeImage → CTCLabelDecode)
+  private static async recognizeCrop(
+    session: InferenceSession,
+    crop: DecodedImage,
+  ): Promise<{ text: string; confidence: number }> {
+    const { height: inputHeight, width: minWidth } = recConfig.preprocessing;
+    const targetWidth = Math.max(1, Math.min(REC_MAX_WIDTH, Math.ceil((inputHeight * crop.width) / crop.height)));
+    const inputWidth = Math.max(minWidth, targetWidth);
+
+    const resized = ImageDecoder.resize(crop, targetWidth, inputHeight);
+    // Right-pad with zeros up to the model width, as PaddleOCR does for short crops
+    const input = PaddleOCRService.toTensorData(resized, recConfig.preprocessing, inputWidth);
+
+    const outputs = await session.run({
+      [session.inputNames[0]]: new Tensor('float32', input, [1, 3, inputHeight, inputWidth]),
+    });
+    const output = outputs[session.outputNames[0]];
+    const [, steps, classes] = output.dims;
+
+    return PaddleOCRService.ctcDecode(output.data as Float32Array, steps, classes);
+  }
+
+  private static ctcDecode(data: Float32Array, steps: number, classes: number) {
+    let text = '';
+    let confidenceSum = 0;
+    let emitted = 0;
+    let previous = -1;
+
+    for (let step = 0; step < steps; step += 1) {
+      let best = 0;
+      let bestScore = -Infinity;
+      for (let index = 0; index < classes; index += 1) {
+        const score = data[step * classes + index];
+        if (score > bestScore) {
+          bestScore = score;
+          best = index;
+        }
+      }
+
+      if (best !== 0 && best !== previous) {
+        text += PaddleOCRService.characters[best - 1] ?? '';
+        confidenceSum += bestScore;
+        emitted += 1;
+      }
+      previous = best;
+    }
+
+    return { text, confidence: emitted > 0 ? confidenceSum / emitted : 0 };
+  }
+
+  // HWC RGBA pixels → CHW float tensor in the model's channel order, normalised per channel
+  private static toTensorData(
+    image: DecodedImage,
+    preprocessing: { img_mode: string; mean: number[]; std: number[]; scale: number },
+    tensorWidth: number,
+  ): Float32Array {
+    const { width, height, data } = image;
+    const planeSize = tensorWidth * height;
+    const tensor = new Float32Array(3 * planeSize);
+    // RGBA offsets for each output channel
+    const channelOffsets = preprocessing.img_mode === 'BGR' ? [2, 1, 0] : [0, 1, 2];
+
+    for (let channel = 0; channel < 3; channel += 1) {
+      const offset = channelOffsets[channel];
+      const mean = preprocessing.mean[channel];
+      const std = preprocessing.std[channel];
+      for (let y = 0; y < height; y += 1) {
+        for (let x = 0; x < width; x += 1) {
+          const pixel = data[(y * width + x) * 4 + offset];
+          tensor[channel * planeSize + y * tensorWidth + x] = (pixel * preprocessing.scale - mean) / std;
+        }
+      }
+    }
+
+    return tensor;
+  }
+}
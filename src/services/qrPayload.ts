@@ -0,0 +1,399 @@
+import { StationService } from './stations';
+import { Bill, BillField, ParsedQRCode, QRParseDiagnostics, QRPayloadFormat } from '../types';
+
+const BILL_FIELDS: BillField[] = ['billNumber', 'amount', 'date', 'from', 'to'];
+
+export class QRPayloadService {
+  // Decode a ticket QR payload, trying JSON, key/value pairs, the Pune Metro pipe format and free text in turn
+  static parse(data: string): ParsedQRCode {
+    const raw = data.trim();
+    const diagnostics: QRParseDiagnostics = {
+      attempted: [],
+      format: null,
+      fields: [],
+      unknownStationCodes: [],
+      warnings: [],
+    };
+
+    const parsers: [QRPayloadFormat, (text: string) => Partial<Bill> | null][] = [
+      ['json', QRPayloadService.parseJson],
+      ['keyValue', (text) => {
+        const pairs = QRPayloadService.extractKeyValuePairs(text);
+        return pairs ? QRPayloadService.normalizeBillFields(pairs) : null;
+      }],
+      ['metro', (text) => QRPayloadService.parseMetroPayload(text, diagnostics)],
+      ['freeText', QRPayloadService.parseFreeText],
+    ];
+
+    for (const [format, parser] of parsers) {
+      diagnostics.attempted.push(format);
+      const bill = parser(raw);
+      if (bill && QRPayloadService.hasBillValues(bill)) {
+        diagnostics.format = format;
+        diagnostics.fields = BILL_FIELDS.filter((field) => bill[field] !== undefined && bill[field] !== '');
+        return { raw, bill, diagnostics };
+      }
+      // JSON payloads are never anything else, so stop once one parsed
+      if (format === 'json' && bill) {
+        diagnostics.warnings.push('JSON payload has no bill fields');
+        break;
+      }
+    }
+
+    return { raw, bill: null, diagnostics };
+  }
+
+  private static parseJson(text: string): Partial<Bill> | null {
+    try {
+      const parsedJson = JSON.parse(text);
+      if (parsedJson && typeof parsedJson === 'object') {
+        return QRPayloadService.normalizeBillFields(parsedJson as Record<string, unknown>);
+      }
+    } catch (error) {
+      // Not JSON
+    }
+    return null;
+  }
+
+  private static extractKeyValuePairs(text: string): Record<string, string> | null {
+    const matches = Array.from(text.matchAll(/([A-Za-z ]{2,})[:=]\s*([^;\n]+)/g));
+    if (!matches.length) {
+      return null;
+    }
+
+    return matches.reduce<Record<string, string>>((acc, match) => {
+      const key = match[1].trim().toLowerCase();
+      acc[key] = match[2].trim();
+      return acc;
+    }, {});
+  }
+
+  private static normalizeBillFields(data: Record<string, unknown>): Partial<Bill> {
+    const getValue = (keys: string[]): string | undefined => {
+      for (const key of keys) {
+        const value = data[key] ?? data[key.toLowerCase()];
+        if (typeof value === 'string' && value.trim().length) {
+          return value.trim();
+        }
+        if (typeof value === 'number') {
+          return value.toString();
+        }
+      }
+      return undefined;
+    };
+
+    const amountRaw = getValue(['amount', 'fare', 'total']);
+    const amount = amountRaw ? parseFloat(amountRaw.replace(/[^0-9.]/g, '')) : undefined;
+    const dateRaw = getValue(['date', 'billDate']);
+    const date = dateRaw ? new Date(dateRaw) : undefined;
+
+    return {
+      billNumber: getValue(['billNumber', 'bill', 'ticket', 'invoice', 'bill_no']) || undefined,
+      amount,
+      from: QRPayloadService.canonicalStationName(getValue(['from', 'source'])),
+      to: QRPayloadService.canonicalStationName(getValue(['to', 'destination'])),
+      date: date && !Number.isNaN(date.getTime()) ? date : undefined,
+    };
+  }
+
+  private static canonicalStationName(name: string | undefined): string | undefined {
+    if (!name) {
+      return undefined;
+    }
+    return StationService.match(name)?.station.name ?? name;
+  }
+
+  private static hasBillValues(bill: Partial<Bill>): boolean {
+    return Boolean(
+      (bill.billNumber && bill.billNumber.length > 0) ||
+        typeof bill.amount === 'number' ||
+        (bill.from && bill.from.length > 0) ||
+        (bill.to && bill.to.length > 0) ||
+        bill.date,
+    );
+  }
+
+  private static parseFreeText(text: string): Partial<Bill> | null {
+    if (!text) {
+      return null;
+    }
+
+    const amountMatch = text.match(/(?:fare|total|amount|rs\.?|₹|inr)\s*[:=]?\s*(\d+(?:\.\d{1,2})?)/i);
+    const billMatch = text.match(/(?:ticket|bill|invoice|receipt)\s*(?:no\.?|#|number|id)?\s*[:=]?\s*([A-Z0-9T-]+)/i);
+    const dateMatch = text.match(/(?:date|dated|valid)\s*[:=]?\s*(\d{1,2}[-\/]\d{1,2}[-\/]\d{2,4})/i);
+    const fromMatch = text.match(/from\s*[:=]?\s*([A-Z0-9\s]+)/i);
+    const toMatch = text.match(/to\s*[:=]?\s*([A-Z0-9\s]+)/i);
+
+    let parsedDate: Date | undefined;
+    if (dateMatch) {
+      const replaced = dateMatch[1].replace(/(\d{1,2})[-/](\d{1,2})[-/](\d{2,4})/, '$2/$1/$3');
+      const d = new Date(replaced);
+      if (!Number.isNaN(d.getTime())) {
+        parsedDate = d;
+      }
+    }
+
+    return {
+      billNumber: billMatch ? billMatch[1] : undefined,
+      amount: amountMatch ? parseFloat(amountMatch[1]) : undefined,
+      date: parsedDate,
+      from: fromMatch ? fromMatch[1].trim() : undefined,
+      to: toMatch ? toMatch[1].trim() : undefined,
+    };
+  }
+
+  // Pune Metro tickets: a pipe-separated data block (ticket id, fare as a hex float, station codes in the 8th and
+  // 9th segments), optionally followed by a route block of <From><To><dd|mm|yy>
+  private static parseMetroPayload(text: string, diagnostics: QRParseDiagnostics): Partial<Bill> | null {
+    if (!text.includes('|')) {
+      return null;
+    }
+
+    const braceSections = Array.from(text.matchAll(/\{([^{}]*)\}/g), (match) => match[1].trim()).filter(Boolean);
+
+    const dataBlock = braceSections.find((block) => block.includes('|') && block.split('|').length >= 4);
+    const routeBlock = braceSections.find((block) => block.includes('<') && block.includes('>'));
+
+    let billNumber: string | undefined;
+    let amount: number | undefined;
+    let date: Date | undefined;
+    let from: string | undefined;
+    let to: string | undefined;
+
+    const decodeStation = (code: string | undefined) => QRPayloadService.decodeStationCode(code, diagnostics);
+    const dataSegments = dataBlock ? dataBlock.split('|').map((segment) => segment.trim()).filter(Boolean) : [];
+
+    if (dataSegments.length) {
+      const segments = dataSegments;
+
+      const sequentialCandidate = segments[4];
+      if (sequentialCandidate) {
+        const metroDate = QRPayloadService.parseMetroDateTime(sequentialCandidate);
+        if (metroDate) {
+          date = metroDate;
+        } else {
+          billNumber = sequentialCandidate;
+        }
+      }
+
+      if (!billNumber) {
+        const ticketCandidate = segments.find((segment) => /[A-Z].*\d/.test(segment) && segment.length >= 10);
+        if (ticketCandidate) {
+          billNumber = ticketCandidate;
+        }
+      }
+
+      const hexFloat = segments.find((segment) => /^0x[0-9a-f]+(?:\.[0-9a-f]+)?p[+-]?\d+$/i.test(segment));
+      if (hexFloat) {
+        amount = QRPayloadService.parseHexFloat(hexFloat);
+        if (amount === undefined) {
+          diagnostics.warnings.push(`Could not decode fare ${hexFloat}`);
+        }
+      }
+
+      if (amount === undefined) {
+        const numericAmount = segments.find((segment) => /^\d+(?:\.\d+)?$/.test(segment));
+        if (numericAmount) {
+          amount = parseFloat(numericAmount);
+        }
+      }
+
+      if (!date) {
+        const timestampCandidate = segments.find((segment) => /^\d{10,}$/.test(segment));
+        if (timestampCandidate) {
+          const rawValue = parseInt(timestampCandidate, 10);
+          const millis = rawValue > 1e12 ? rawValue : rawValue * 1000;
+          const candidate = new Date(millis);
+          if (
+            !Number.isNaN(candidate.getTime()) &&
+            candidate.getFullYear() >= 2000 &&
+            candidate.getFullYear() <= 2100
+          ) {
+            date = candidate;
+          }
+        }
+      }
+
+      if (!date) {
+        const dateToken = segments.find((segment) => /T\d{3,}/.test(segment));
+        if (dateToken) {
+          date = QRPayloadService.parseMetroDateTime(dateToken) ?? date;
+        }
+      }
+
+      if (!billNumber) {
+        const fallbackTicket = segments.find((segment) => /\d{6,}/.test(segment));
+        if (fallbackTicket) {
+          billNumber = fallbackTicket;
+        }
+      }
+
+      if (!routeBlock) {
+        from = decodeStation(segments[7]) ?? from;
+        to = decodeStation(segments[8]) ?? to;
+      }
+    }
+
+    if (routeBlock) {
+      const segments = Array.from(routeBlock.matchAll(/<([^>]+)>/g), (match) => match[1]);
+      if (segments.length >= 1) {
+        from = QRPayloadService.formatRouteSegment(segments[0]);
+      }
+      if (segments.length >= 2) {
+        to = QRPayloadService.formatRouteSegment(segments[1]);
+      }
+      if (!date && segments.length >= 3) {
+        const dateParts = segments[2].split('|');
+        if (dateParts.length >= 3) {
+          const [dayStr, monthStr, yearStr] = dateParts;
+          const day = parseInt(dayStr, 10);
+          const month = parseInt(monthStr, 10);
+          const yearTwoDigit = parseInt(yearStr, 10);
+          if (!Number.isNaN(day) && !Number.isNaN(month) && !Number.isNaN(yearTwoDigit)) {
+            const year = yearTwoDigit + (yearTwoDigit >= 70 ? 1900 : 2000);
+            const constructed = new Date(year, Math.max(0, month - 1), day);
+            if (!Number.isNaN(constructed.getTime())) {
+              date = constructed;
+            }
+          }
+        }
+      }
+    }
+
+    if (dataSegments.length && routeBlock) {
+      const fromCode = dataSegments[7];
+      const toCode = dataSegments[8];
+
+      if (!from || /metro/i.test(from)) {
+        from = decodeStation(fromCode) ?? from;
+      } else if (fromCode) {
+        const decoded = decodeStation(fromCode);
+        if (decoded && decoded !== from) {
+          diagnostics.warnings.push(`Route name ${from} does not match station code ${fromCode}`);
+          from = `${from} (${decoded})`;
+        }
+      }
+
+      if (!to || (from && to === from) || /metro/i.test(to)) {
+        const decodedTo = decodeStation(toCode);
+        to = decodedTo ?? (fromCode === toCode ? undefined : to);
+      } else if (toCode) {
+        const decoded = decodeStation(toCode);
+        if (decoded && decoded !== to) {
+          diagnostics.warnings.push(`Route name ${to} does not match station code ${toCode}`);
+          to = `${to} (${decoded})`;
+        }
+      }
+    }
+
+    const bill: Partial<Bill> = {
+      billNumber,
+      amount,
+      date,
+      from,
+      to,
+    };
+
+    if (billNumber || amount !== undefined || from || to || date) {
+      console.log('🧾 Parsed metro payload', bill);
+    }
+
+    return bill;
+  }
+
+  // Tokens look like "YYYYMMDDTHHMMSSmmm" with the leading century pair ignored
+  private static parseMetroDateTime(token: string): Date | undefined {
+    const normalized = token.replace(/[^0-9T]/g, '');
+    const [dateSection, timeSection] = normalized.split('T');
+    if (!dateSection || !timeSection) {
+      return undefined;
+    }
+
+    if (dateSection.length !== 8) {
+      return undefined;
+    }
+
+    const dateParts = dateSection.match(/\d{2}/g);
+    if (!dateParts || dateParts.length < 4) {
+      return undefined;
+    }
+
+    const [, yearPart, monthPart, dayPart] = dateParts;
+    const year = 2000 + parseInt(yearPart, 10);
+    const month = parseInt(monthPart, 10);
+    const day = parseInt(dayPart, 10);
+
+    if (Number.isNaN(year) || Number.isNaN(month) || Number.isNaN(day)) {
+      return undefined;
+    }
+
+    const paddedTime = timeSection.padEnd(6, '0');
+    const hour = parseInt(paddedTime.slice(0, 2), 10);
+    const minute = parseInt(paddedTime.slice(2, 4), 10);
+    const second = parseInt(paddedTime.slice(4, 6), 10);
+    const millisecondPart = timeSection.length > 6 ? timeSection.slice(6, 9) : '0';
+    const millisecond = parseInt(millisecondPart.padEnd(3, '0'), 10);
+
+    if ([hour, minute, second, millisecond].some((value) => Number.isNaN(value))) {
+      return undefined;
+    }
+
+    const constructed = new Date(year, Math.max(0, month - 1), day, hour, minute, second, millisecond);
+    if (Number.isNaN(constructed.getTime()) || constructed.getFullYear() !== year) {
+      return undefined;
+    }
+
+    return constructed;
+  }
+
+  // C99 hexadecimal float, e.g. "0x1.4p+4" = 20. The scanner's old parser never captured the fraction, so
+  // it read the exponent as fraction digits and every hex fare came out undefined.
+  private static parseHexFloat(value: string): number | undefined {
+    const match = value.match(/^0x([0-9a-f]+)(?:\.([0-9a-f]+))?p([+-]?\d+)$/i);
+    if (!match) {
+      return undefined;
+    }
+
+    const [, integerPart, fractionPart = '', exponentPart] = match;
+    const integer = parseInt(integerPart, 16);
+    let fraction = 0;
+    for (let index = 0; index < fractionPart.length; index += 1) {
+      fraction += parseInt(fractionPart[index], 16) / 16 ** (index + 1);
+    }
+
+    const exponent = parseInt(exponentPart, 10);
+    return (integer + fraction) * 2 ** exponent;
+  }
+
+  private static formatRouteSegment(segment: string): string | undefined {
+    if (!segment) {
+      return undefined;
+    }
+
+    const cleaned = segment.replace(/^[^A-Za-z0-9]+/, '').split('|')[0]?.trim();
+    if (!cleaned) {
+      return undefined;
+    }
+
+    // Prefer the canonical station name when the route text is recognisable
+    return StationService.match(cleaned)?.station.name ?? cleaned;
+  }
+
+  private static decodeStationCode(code: string | undefined, diagnostics: QRParseDiagnostics): string | undefined {
+    const normalized = code?.trim();
+    if (!normalized) {
+      return undefined;
+    }
+
+    const station = StationService.fromQRCode(normalized);
+    if (station) {
+      return station.name;
+    }
+
+    console.log('ℹ️ Unknown metro station code detected', normalized);
+    if (!diagnostics.unknownStationCodes.includes(normalized)) {
+      diagnostics.unknownStationCodes.push(normalized);
+    }
+    return normalized.toUpperCase();
+  }
+}
@@ -0,0 +1,91 @@
+import { StationService } from './stations';
+import { BillFingerprint } from '../utils/billFingerprint';
+import { MetroFares } from '../utils/metroFares';
+import { Bill, BillField, SourceMismatch } from '../types';
+
+const RECONCILED_FIELDS: BillField[] = ['billNumber', 'date', 'amount', 'from', 'to'];
+
+const FIELD_LABELS: Partial<Record<BillField, string>> = {
+  billNumber: 'Bill number',
+  date: 'Date',
+  amount: 'Fare',
+  from: 'From',
+  to: 'To',
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+export class ReconciliationService {
+  // Compare the values read from the QR code with those read from the printed text of the same ticket.
+  // Fields missing from either side, or OCR placeholders scored 0, are not compared.
+  static compare(qrData: Partial<Bill>, ocrData: Partial<Bill>): SourceMismatch[] {
+    return RECONCILED_FIELDS.reduce<SourceMismatch[]>((mismatches, field) => {
+      const qrValue = qrData[field];
+      const ocrValue = ocrData[field];
+      if (qrValue === undefined || ocrValue === undefined || ocrValue === '' || ocrValue === 'Unknown') {
+        return mismatches;
+      }
+      if (ocrData.fieldConfidence?.[field]?.confidence === 0) {
+        return mismatches;
+      }
+
+      const mismatch = ReconciliationService.compareField(field, qrValue, ocrValue);
+      if (mismatch) {
+        mismatches.push(mismatch);
+      }
+      return mismatches;
+    }, []);
+  }
+
+  static describe(mismatch: SourceMismatch): string {
+    const label = FIELD_LABELS[mismatch.field] ?? mismatch.field;
+    return `${label}: QR code says ${mismatch.qr}, printed ticket says ${mismatch.ocr}`;
+  }
+
+  private static compareField(field: BillField, qrValue: unknown, ocrValue: unknown): SourceMismatch | null {
+    switch (field) {
+      case 'billNumber': {
+        const qr = String(qrValue);
+        const ocr = String(ocrValue);
+        return BillFingerprint.billNumber(qr) === BillFingerprint.billNumber(ocr)
+          ? null
+          : { field, qr, ocr };
+      }
+      case 'amount': {
+        const qr = Number(qrValue);
+        const ocr = Number(ocrValue);
+        return MetroFares.sameFare(qr, ocr) ? null : { field, qr: `₹${qr}`, ocr: `₹${ocr}` };
+      }
+      case 'date': {
+        if (!(qrValue instanceof Date) || !(ocrValue instanceof Date)) return null;
+        // Printed dates carry no time, so the time is only compared when both sides have one
+        const withTime = ReconciliationService.hasTime(qrValue) && ReconciliationService.hasTime(ocrValue);
+        const qr = ReconciliationService.formatDate(qrValue, withTime);
+        const ocr = ReconciliationService.formatDate(ocrValue, withTime);
+        return qr === ocr ? null : { field, qr, ocr };
+      }
+      case 'from':
+      case 'to': {
+        const qr = String(qrValue);
+        const ocr = String(ocrValue);
+        const qrStation = StationService.match(qr)?.station;
+        const ocrStation = StationService.match(ocr)?.station;
+        const same = qrStation && ocrStation
+          ? qrStation.code === ocrStation.code
+          : qr.trim().toLowerCase() === ocr.trim().toLowerCase();
+        return same ? null : { field, qr: qrStation?.name ?? qr, ocr: ocrStation?.name ?? ocr };
+      }
+      default:
+        return null;
+    }
+  }
+
+  private static hasTime(date: Date): boolean {
+    return date.getHours() !== 0 || date.getMinutes() !== 0;
+  }
+
+  private static formatDate(date: Date, withTime: boolean): string {
+    const day = `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}`;
+    return withTime ? `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}` : day;
+  }
+}
@@ -0,0 +1,127 @@
+import { MetroLine, MetroStation, StationMatch } from '../types';
+
+// Pune Metro network: Purple Line (PCMC ↔ Swargate) and Aqua Line (Vanaz ↔ Ramwadi), interchange at Civil Court.
+// Codes are our own three/four-letter abbreviations; coordinates are approximate station locations.
+export const PUNE_METRO_STATIONS: MetroStation[] = [
+  // Purple Line
+  { code: 'PCMC', name: 'PCMC', nameMarathi: 'पिंपरी चिंचवड महानगरपालिका', aliases: ['Pimpri Chinchwad', 'PCMC Bhavan', 'पीसीएमसी'], lines: { purple: 1 }, latitude: 18.6279, longitude: 73.8009 },
+  { code: 'STN', name: 'Sant Tukaram Nagar', nameMarathi: 'संत तुकाराम नगर', aliases: ['Tukaram Nagar'], lines: { purple: 2 }, latitude: 18.6197, longitude: 73.8149 },
+  { code: 'BHS', name: 'Bhosari', nameMarathi: 'भोसरी', aliases: ['Nashik Phata', 'Bhosari Nashik Phata', 'नाशिक फाटा'], lines: { purple: 3 }, latitude: 18.6107, longitude: 73.8219 },
+  { code: 'KSW', name: 'Kasarwadi', nameMarathi: 'कासारवाडी', aliases: [], lines: { purple: 4 }, latitude: 18.6036, longitude: 73.8224 },
+  { code: 'PGW', name: 'Phugewadi', nameMarathi: 'फुगेवाडी', aliases: [], lines: { purple: 5 }, latitude: 18.5946, longitude: 73.8290 },
+  { code: 'DPD', name: 'Dapodi', nameMarathi: 'दापोडी', aliases: [], lines: { purple: 6 }, latitude: 18.5838, longitude: 73.8336 },
+  { code: 'BPD', name: 'Bopodi', nameMarathi: 'बोपोडी', aliases: [], lines: { purple: 7 }, latitude: 18.5735, longitude: 73.8382 },
+  { code: 'KKD', name: 'Khadki', nameMarathi: 'खडकी', aliases: ['Khadaki', 'Kirkee'], lines: { purple: 8 }, latitude: 18.5634, longitude: 73.8432 },
+  { code: 'RGH', name: 'Range Hill', nameMarathi: 'रेंज हिल', aliases: ['Range Hills'], lines: { purple: 9 }, latitude: 18.5490, longitude: 73.8395 },
+  { code: 'SVN', name: 'Shivaji Nagar', nameMarathi: 'शिवाजीनगर', aliases: ['Shivajinagar'], lines: { purple: 10 }, latitude: 18.5316, longitude: 73.8488 },
+  { code: 'CVC', name: 'Civil Court', nameMarathi: 'सिव्हिल कोर्ट', aliases: ['District Court', 'जिल्हा न्यायालय'], lines: { purple: 11, aqua: 9 }, latitude: 18.5273, longitude: 73.8563 },
+  { code: 'BWP', name: 'Budhwar Peth', nameMarathi: 'बुधवार पेठ', aliases: ['Kasba Peth', 'कसबा पेठ'], lines: { purple: 12 }, latitude: 18.5178, longitude: 73.8590 },
+  { code: 'MND', name: 'Mandai', nameMarathi: 'मंडई', aliases: ['Mahatma Phule Mandai'], lines: { purple: 13 }, latitude: 18.5123, longitude: 73.8560 },
+  { code: 'SWG', name: 'Swargate', nameMarathi: 'स्वारगेट', aliases: [], lines: { purple: 14 }, latitude: 18.5010, longitude: 73.8634 },
+
+  // Aqua Line (Civil Court listed above)
+  { code: 'VNZ', name: 'Vanaz', nameMarathi: 'वनाझ', aliases: ['Vanaz Corner'], lines: { aqua: 1 }, latitude: 18.5072, longitude: 73.8050 },
+  { code: 'ANN', name: 'Anand Nagar', nameMarathi: 'आनंद नगर', aliases: ['Anandnagar'], lines: { aqua: 2 }, latitude: 18.5087, longitude: 73.8130 },
+  { code: 'IDC', name: 'Ideal Colony', nameMarathi: 'आयडियल कॉलनी', aliases: [], lines: { aqua: 3 }, latitude: 18.5097, longitude: 73.8206 },
+  { code: 'NLS', name: 'Nal Stop', nameMarathi: 'नळ स्टॉप', aliases: [], lines: { aqua: 4 }, latitude: 18.5104, longitude: 73.8285 },
+  { code: 'GWC', name: 'Garware College', nameMarathi: 'गरवारे कॉलेज', aliases: [], lines: { aqua: 5 }, latitude: 18.5140, longitude: 73.8380 },
+  { code: 'DCG', name: 'Deccan Gymkhana', nameMarathi: 'डेक्कन जिमखाना', aliases: ['Deccan'], lines: { aqua: 6 }, latitude: 18.5160, longitude: 73.8417 },
+  { code: 'CSU', name: 'Chhatrapati Sambhaji Udyan', nameMarathi: 'छत्रपती संभाजी उद्यान', aliases: ['Sambhaji Udyan', 'Sambhaji Park'], lines: { aqua: 7 }, latitude: 18.5210, longitude: 73.8468 },
+  { code: 'PMC', name: 'PMC', nameMarathi: 'पुणे महानगरपालिका', aliases: ['Pune Municipal Corporation', 'पीएमसी'], lines: { aqua: 8 }, latitude: 18.5247, longitude: 73.8529 },
+  { code: 'MWP', name: 'Mangalwar Peth', nameMarathi: 'मंगळवार पेठ', aliases: ['RTO'], lines: { aqua: 10 }, latitude: 18.5290, longitude: 73.8660 },
+  { code: 'PRS', name: 'Pune Railway Station', nameMarathi: 'पुणे रेल्वे स्टेशन', aliases: ['Pune Station', 'Railway Station'], lines: { aqua: 11 }, latitude: 18.5287, longitude: 73.8740 },
+  { code: 'RHC', name: 'Ruby Hall Clinic', nameMarathi: 'रुबी हॉल क्लिनिक', aliases: ['Ruby Hall'], lines: { aqua: 12 }, latitude: 18.5335, longitude: 73.8780 },
+  { code: 'BDG', name: 'Bund Garden', nameMarathi: 'बंड गार्डन', aliases: [], lines: { aqua: 13 }, latitude: 18.5380, longitude: 73.8850 },
+  { code: 'YWD', name: 'Yerawada', nameMarathi: 'येरवडा', aliases: ['Yerwada'], lines: { aqua: 14 }, latitude: 18.5470, longitude: 73.8950 },
+  { code: 'KLN', name: 'Kalyani Nagar', nameMarathi: 'कल्याणी नगर', aliases: ['Kalyaninagar'], lines: { aqua: 15 }, latitude: 18.5470, longitude: 73.9040 },
+  { code: 'RMW', name: 'Ramwadi', nameMarathi: 'रामवाडी', aliases: [], lines: { aqua: 16 }, latitude: 18.5520, longitude: 73.9130 },
+];
+
+// Below this similarity a line is not considered to name a station
+const MIN_MATCH_SCORE = 0.75;
+
+export class StationService {
+  static all(): MetroStation[] {
+    return PUNE_METRO_STATIONS;
+  }
+
+  static byCode(code: string): MetroStation | undefined {
+    const normalized = code.trim().toUpperCase();
+    return PUNE_METRO_STATIONS.find((station) => station.code === normalized);
+  }
+
+  static byName(name: string): MetroStation | undefined {
+    const normalized = StationService.normalize(name);
+    return PUNE_METRO_STATIONS.find((station) =>
+      StationService.namesOf(station).some((candidate) => StationService.normalize(candidate) === normalized),
+    );
+  }
+
+  static onLine(line: MetroLine): MetroStation[] {
+    return PUNE_METRO_STATIONS.filter((station) => station.lines[line] !== undefined).sort(
+      (a, b) => (a.lines[line] as number) - (b.lines[line] as number),
+    );
+  }
+
+  // Best station for a noisy OCR line or free-text name, or null when nothing is close enough
+  static match(text: string, minScore: number = MIN_MATCH_SCORE): StationMatch | null {
+    const input = StationService.normalize(text);
+    if (input.length < 2) return null;
+
+    const exactCode = StationService.byCode(text);
+    if (exactCode) return { station: exactCode, score: 1 };
+
+    let best: StationMatch | null = null;
+    for (const station of PUNE_METRO_STATIONS) {
+      for (const candidate of StationService.namesOf(station)) {
+        const score = StationService.similarity(input, StationService.normalize(candidate));
+        if (!best || score > best.score) {
+          best = { station, score };
+        }
+      }
+    }
+
+    return best && best.score >= minScore ? best : null;
+  }
+
+  // Station codes from QR payloads: our own code, a station name, or an unknown token
+  static fromQRCode(code: string | undefined): MetroStation | undefined {
+    if (!code?.trim()) return undefined;
+    return StationService.byCode(code) ?? StationService.match(code)?.station;
+  }
+
+  private static namesOf(station: MetroStation): string[] {
+    return [station.name, station.nameMarathi, station.code, ...station.aliases];
+  }
+
+  // Lower-case, keep only letters (Latin and Devanagari) so spacing and punctuation noise is ignored
+  private static normalize(text: string): string {
+    return text.toLowerCase().replace(/[^a-zऀ-ॿ]/g, '');
+  }
+
+  // Similarity of the input to a name; the name may be embedded in a longer line ("From : SWARGATE")
+  private static similarity(input: string, name: string): number {
+    if (!name) return 0;
+    if (input === name) return 1;
+    if (name.length >= 4 && input.includes(name)) return 0.95;
+
+    const distance = StationService.levenshtein(input, name);
+    return 1 - distance / Math.max(input.length, name.length);
+  }
+
+  private static levenshtein(a: string, b: string): number {
+    const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    const current = new Array<number>(b.length + 1);
+
+    for (let i = 1; i <= a.length; i += 1) {
+      current[0] = i;
+      for (let j = 1; j <= b.length; j += 1) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      }
+      previous.splice(0, previous.length, ...current);
+    }
+
+    return previous[b.length];
+  }
+}
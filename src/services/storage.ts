@@ -1,38 +1,311 @@
-import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { storage } from './firebase';
+import { FirebaseError } from 'firebase/app';
+import { ref, uploadBytesResumable, getDownloadURL, deleteObject, UploadTask } from 'firebase/storage';
+import { getFirebase } from './firebase';
+import { ImageCompressor } from '../utils/imageCompressor';
+import { UploadState } from '../types';
+
+// Failed attempts are retried after 2 s, 4 s, 8 s ... capped at a minute, giving up after the fifth attempt
+const MAX_UPLOAD_ATTEMPTS = 5;
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60 * 1000;
+// Errors a new attempt cannot fix
+const PERMANENT_ERROR_CODES = new Set([
+  'storage/unauthorized',
+  'storage/unauthenticated',
+  'storage/quota-exceeded',
+  'storage/invalid-argument',
+  'storage/canceled',
+]);
+
+type UploadListener = (uploads: UploadState[]) => void;
+type ProgressListener = (state: UploadState) => void;
+
+export interface UploadHandle {
+  id: string;
+  // Download URL once the file is stored; rejects when the upload is cancelled or gives up
+  result: Promise<string>;
+}
+
+interface ActiveUpload {
+  uri: string;
+  state: UploadState;
+  task: UploadTask | null;
+  blob: Blob | null;
+  // pause() arrived before the task existed; the attempt stops before uploading
+  pausePending: boolean;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  onProgress?: ProgressListener;
+  resolve: (url: string) => void;
+  reject: (error: unknown) => void;
+}
+
+let nextUploadId = 1;
 
 export class StorageService {
-  static async uploadImage(uri: string, path: string): Promise<string> {
-    let blob: any;
+  private static uploads = new Map<string, ActiveUpload>();
+  private static listeners = new Set<UploadListener>();
+
+  static async uploadImage(uri: string, path: string, onProgress?: ProgressListener): Promise<string> {
     try {
-      // Use XMLHttpRequest to create blob (more reliable in RN)
-      blob = await new Promise((resolve, reject) => {
-        const xhr = new XMLHttpRequest();
-        xhr.onload = function () {
-          resolve(xhr.response);
-        };
-        xhr.onerror = function (e) {
-          console.log(e);
-          reject(new TypeError('Network request failed'));
-        };
-        xhr.responseType = 'blob';
-        xhr.open('GET', uri, true);
-        xhr.send(null);
-      });
-      
-      const storageRef = ref(storage, path);
-      await uploadBytes(storageRef, blob);
-      
-      const downloadURL = await getDownloadURL(storageRef);
-      return downloadURL;
+      return await StorageService.startUpload(uri, path, onProgress).result;
     } catch (error) {
-      console.error('Error uploading image:', error);
+      if (!StorageService.isCanceled(error)) {
+        console.error('Error uploading image:', error);
+      }
       throw error;
-    } finally {
-      // Close the blob to release memory
-      if (blob && typeof blob.close === 'function') {
-        blob.close();
+    }
+  }
+
+  // Upload in chunks so a dropped connection resumes instead of starting over; an attempt that still fails
+  // is retried from the start with backoff
+  static startUpload(uri: string, path: string, onProgress?: ProgressListener): UploadHandle {
+    const id = `upload_${Date.now().toString(36)}_${nextUploadId++}`;
+    const result = new Promise<string>((resolve, reject) => {
+      StorageService.uploads.set(id, {
+        uri,
+        state: { id, path, status: 'running', bytesTransferred: 0, totalBytes: 0, progress: 0, attempts: 0 },
+        task: null,
+        blob: null,
+        pausePending: false,
+        retryTimer: null,
+        onProgress,
+        resolve,
+        reject,
+      });
+    });
+    StorageService.attempt(StorageService.uploads.get(id)!);
+    return { id, result };
+  }
+
+  // Current uploads, including ones waiting for a retry
+  static getUploads(): UploadState[] {
+    return [...StorageService.uploads.values()].map((upload) => ({ ...upload.state }));
+  }
+
+  // Called with every change; finished uploads are reported once with their final status and then dropped
+  static subscribe(listener: UploadListener): () => void {
+    StorageService.listeners.add(listener);
+    listener(StorageService.getUploads());
+    return () => {
+      StorageService.listeners.delete(listener);
+    };
+  }
+
+  static pause(id: string): void {
+    const upload = StorageService.uploads.get(id);
+    if (!upload) return;
+    if (upload.task) {
+      upload.task.pause();
+    } else if (upload.state.status === 'running') {
+      // Still reading the file
+      upload.pausePending = true;
+    } else if (upload.state.status === 'retrying') {
+      StorageService.clearRetry(upload);
+      StorageService.setState(upload, { status: 'paused', nextRetryAt: undefined });
+    }
+  }
+
+  static resume(id: string): void {
+    const upload = StorageService.uploads.get(id);
+    if (!upload) return;
+    if (upload.task) {
+      upload.task.resume();
+    } else if (upload.pausePending) {
+      upload.pausePending = false;
+    } else if (upload.state.status === 'paused' || upload.state.status === 'retrying') {
+      // Paused between attempts: start the next one now
+      StorageService.clearRetry(upload);
+      StorageService.attempt(upload);
+    }
+  }
+
+  static cancel(id: string): void {
+    const upload = StorageService.uploads.get(id);
+    if (!upload) return;
+    StorageService.clearRetry(upload);
+    if (upload.task) {
+      // The task reports storage/canceled, which finishes the upload
+      upload.task.cancel();
+    } else {
+      StorageService.finish(upload, 'canceled', StorageService.canceledError());
+    }
+  }
+
+  static isCanceled(error: unknown): boolean {
+    return error instanceof FirebaseError
+      ? error.code === 'storage/canceled'
+      : (error as { code?: unknown } | null)?.code === 'storage/canceled';
+  }
+
+  private static async attempt(upload: ActiveUpload): Promise<void> {
+    StorageService.setState(upload, {
+      status: 'running',
+      attempts: upload.state.attempts + 1,
+      // A new attempt starts a new upload session
+      bytesTransferred: 0,
+      progress: 0,
+      nextRetryAt: undefined,
+      error: undefined,
+    });
+
+    try {
+      upload.blob = await StorageService.readBlob(upload.uri);
+    } catch (error) {
+      StorageService.handleFailure(upload, error);
+      return;
+    }
+    // Cancelled while the file was being read
+    if (upload.state.status !== 'running') {
+      StorageService.releaseBlob(upload);
+      return;
+    }
+    // Paused while the file was being read: resume() starts the attempt again
+    if (upload.pausePending) {
+      upload.pausePending = false;
+      StorageService.releaseBlob(upload);
+      StorageService.setState(upload, { status: 'paused', attempts: upload.state.attempts - 1 });
+      return;
+    }
+
+    const task = uploadBytesResumable(ref(getFirebase().storage, upload.state.path), upload.blob!, {
+      contentType: 'image/jpeg',
+    });
+    upload.task = task;
+    task.on(
+      'state_changed',
+      (snapshot) => {
+        StorageService.setState(upload, {
+          status: snapshot.state === 'paused' ? 'paused' : 'running',
+          bytesTransferred: snapshot.bytesTransferred,
+          totalBytes: snapshot.totalBytes,
+          progress: snapshot.totalBytes > 0 ? snapshot.bytesTransferred / snapshot.totalBytes : 0,
+        });
+      },
+      (error) => {
+        upload.task = null;
+        StorageService.releaseBlob(upload);
+        StorageService.handleFailure(upload, error);
+      },
+      async () => {
+        upload.task = null;
+        StorageService.releaseBlob(upload);
+        try {
+          const url = await getDownloadURL(task.snapshot.ref);
+          StorageService.setState(upload, { progress: 1 });
+          StorageService.finish(upload, 'success', url);
+        } catch (error) {
+          StorageService.handleFailure(upload, error);
+        }
+      },
+    );
+  }
+
+  private static handleFailure(upload: ActiveUpload, error: unknown): void {
+    if (StorageService.isCanceled(error)) {
+      StorageService.finish(upload, 'canceled', error);
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    const permanent = error instanceof FirebaseError && PERMANENT_ERROR_CODES.has(error.code);
+    if (permanent || upload.state.attempts >= MAX_UPLOAD_ATTEMPTS) {
+      StorageService.setState(upload, { error: message });
+      StorageService.finish(upload, 'error', error);
+      return;
+    }
+
+    const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (upload.state.attempts - 1));
+    console.warn(
+      `⚠️ Upload of ${upload.state.path} failed (attempt ${upload.state.attempts}), retrying in ${Math.round(delay / 1000)} s:`,
+      message,
+    );
+    StorageService.setState(upload, { status: 'retrying', nextRetryAt: Date.now() + delay, error: message });
+    upload.retryTimer = setTimeout(() => {
+      upload.retryTimer = null;
+      StorageService.attempt(upload);
+    }, delay);
+  }
+
+  // outcome is the download URL on success, otherwise the error
+  private static finish(upload: ActiveUpload, status: 'success' | 'canceled' | 'error', outcome: string | unknown): void {
+    StorageService.setState(upload, { status });
+    StorageService.uploads.delete(upload.state.id);
+    StorageService.notify();
+    if (status === 'success') {
+      upload.resolve(outcome as string);
+    } else {
+      upload.reject(outcome);
+    }
+  }
+
+  private static setState(upload: ActiveUpload, changes: Partial<UploadState>): void {
+    upload.state = { ...upload.state, ...changes };
+    upload.onProgress?.({ ...upload.state });
+    StorageService.notify();
+  }
+
+  private static notify(): void {
+    const uploads = StorageService.getUploads();
+    StorageService.listeners.forEach((listener) => listener(uploads));
+  }
+
+  private static clearRetry(upload: ActiveUpload): void {
+    if (upload.retryTimer) {
+      clearTimeout(upload.retryTimer);
+      upload.retryTimer = null;
+    }
+  }
+
+  // Use XMLHttpRequest to create blob (more reliable in RN)
+  private static readBlob(uri: string): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.onload = function () {
+        resolve(xhr.response);
+      };
+      xhr.onerror = function (e) {
+        console.log(e);
+        reject(new TypeError('Network request failed'));
+      };
+      xhr.responseType = 'blob';
+      xhr.open('GET', uri, true);
+      xhr.send(null);
+    });
+  }
+
+  // Close the blob to release memory
+  private static releaseBlob(upload: ActiveUpload): void {
+    // React Native's Blob has close(); the DOM type does not declare it
+    const blob = upload.blob as (Blob & { close?: () => void }) | null;
+    if (blob && typeof blob.close === 'function') {
+      blob.close();
+    }
+    upload.blob = null;
+  }
+
+  private static canceledError(): Error {
+    return Object.assign(new Error('Upload canceled'), { code: 'storage/canceled' });
+  }
+
+  // Each photo gets its own file so the previous one can be deleted once the profile points at the new one
+  static async uploadProfilePhoto(userId: string, uri: string, onProgress?: ProgressListener): Promise<string> {
+    const avatarUri = await ImageCompressor.compress(uri, 'avatar');
+    return StorageService.uploadImage(avatarUri, `profiles/${userId}/${Date.now()}.jpg`, onProgress);
+  }
+
+  // Remove an uploaded file by its download URL; a file that is already gone counts as deleted
+  static async deleteImage(url: string): Promise<void> {
+    try {
+      await deleteObject(ref(getFirebase().storage, url));
+    } catch (error: any) {
+      if (error?.code !== 'storage/object-not-found') {
+        throw error;
       }
     }
   }
+
+  // Only download URLs and gs:// paths point at Storage; anything else (e.g. a file:// URI) has nothing to delete
+  static isStorageUrl(url: string): boolean {
+    return /^(https?|gs):\/\//.test(url);
+  }
 }
@@ -0,0 +1,264 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import { Directory, File, Paths } from 'expo-file-system';
+import { BillService } from './bills';
+import { DuplicateService } from './duplicates';
+import { ImageUploadService } from './imageUpload';
+import { Timeout } from '../utils/timeout';
+import { Bill, PendingBill } from '../types';
+
+type QueuedBill = Omit<Bill, 'id' | 'createdAt'>;
+type Listener = (pending: PendingBill[]) => void;
+
+// A save that has not been acknowledged by then is retried later; the fixed document id keeps it idempotent
+const SYNC_TIMEOUT_MS = 15000;
+// Retry delay doubles per failed attempt: 5 s, 10 s, 20 s ... capped at 30 min
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+export class SyncQueueService {
+  private static readonly STORAGE_KEY = 'pending_bills';
+  private static readonly IMAGE_DIRECTORY = 'pending-bills';
+
+  private static listeners = new Set<Listener>();
+  private static processing: Promise<void> | null = null;
+  private static retryTimer: ReturnType<typeof setTimeout> | null = null;
+  // AsyncStorage has no transactions, so every read-modify-write of the queue runs through this chain
+  private static writes: Promise<unknown> = Promise.resolve();
+
+  // Keep syncing while the app runs: now, whenever it returns to the foreground, and when retries fall due
+  static start(): () => void {
+    SyncQueueService.processQueue();
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        SyncQueueService.processQueue();
+      }
+    });
+    return () => {
+      subscription.remove();
+      if (SyncQueueService.retryTimer) {
+        clearTimeout(SyncQueueService.retryTimer);
+        SyncQueueService.retryTimer = null;
+      }
+    };
+  }
+
+  static subscribe(listener: Listener): () => void {
+    SyncQueueService.listeners.add(listener);
+    return () => {
+      SyncQueueService.listeners.delete(listener);
+    };
+  }
+
+  static async getPending(userId?: string): Promise<PendingBill[]> {
+    const queue = await SyncQueueService.read();
+    return userId ? queue.filter((item) => item.bill.userId === userId) : queue;
+  }
+
+  // Store the bill on the device first, then try to reach Firestore straight away.
+  // `synced` is false when it stays queued (offline, timed out or in conflict).
+  static async enqueue(
+    bill: QueuedBill,
+    options: { imageUri?: string | null; duplicateChecked: boolean },
+  ): Promise<{ localId: string; synced: boolean }> {
+    const localId = SyncQueueService.createLocalId(bill.userId);
+    const item: PendingBill = {
+      localId,
+      bill,
+      imageUri: options.imageUri ? SyncQueueService.persistImage(options.imageUri, localId) : undefined,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: 0,
+      duplicateChecked: options.duplicateChecked,
+      queuedAt: Date.now(),
+    };
+    await SyncQueueService.mutate((queue) => [...queue, item]);
+
+    await SyncQueueService.processQueue();
+    const stillQueued = (await SyncQueueService.read()).some((queued) => queued.localId === localId);
+    return { localId, synced: !stillQueued };
+  }
+
+  // Sync every item whose retry time has come; concurrent calls share one run
+  static processQueue(): Promise<void> {
+    if (!SyncQueueService.processing) {
+      SyncQueueService.processing = SyncQueueService.runQueue().finally(() => {
+        SyncQueueService.processing = null;
+      });
+    }
+    return SyncQueueService.processing;
+  }
+
+  static async retryNow(localId: string): Promise<void> {
+    await SyncQueueService.update(localId, { nextAttemptAt: 0 });
+    await SyncQueueService.processQueue();
+  }
+
+  // Conflict resolution: keep saves this copy next to the one already on the server
+  static async keepConflicting(localId: string): Promise<void> {
+    await SyncQueueService.update(localId, {
+      status: 'pending',
+      duplicateChecked: true,
+      conflictWith: undefined,
+      nextAttemptAt: 0,
+    });
+    await SyncQueueService.processQueue();
+  }
+
+  static async discard(localId: string): Promise<void> {
+    let removed: PendingBill | undefined;
+    await SyncQueueService.mutate((queue) => {
+      removed = queue.find((item) => item.localId === localId);
+      return queue.filter((item) => item.localId !== localId);
+    });
+    SyncQueueService.deleteImage(removed);
+  }
+
+  // Queued bills follow their owner when an account moves to a new id
+  static reassignUser(fromUserId: string, toUserId: string): Promise<void> {
+    return SyncQueueService.mutate((queue) =>
+      queue.map((item) =>
+        item.bill.userId === fromUserId ? { ...item, bill: { ...item.bill, userId: toUserId } } : item,
+      ),
+    );
+  }
+
+  // A queued item shaped like a bill for lists, carrying its sync state
+  static toBill(item: PendingBill): Bill {
+    return {
+      ...item.bill,
+      id: item.localId,
+      createdAt: new Date(item.queuedAt),
+      imageUrl: item.bill.imageUrl ?? item.imageUri,
+      syncState: item.status,
+    };
+  }
+
+  private static async runQueue(): Promise<void> {
+    if (SyncQueueService.retryTimer) {
+      clearTimeout(SyncQueueService.retryTimer);
+      SyncQueueService.retryTimer = null;
+    }
+
+    const due = (await SyncQueueService.read()).filter(
+      (item) => item.status !== 'conflict' && item.nextAttemptAt <= Date.now(),
+    );
+    for (const item of due) {
+      await SyncQueueService.syncItem(item);
+    }
+
+    SyncQueueService.scheduleRetry(await SyncQueueService.read());
+  }
+
+  private static async syncItem(item: PendingBill): Promise<void> {
+    await SyncQueueService.update(item.localId, { status: 'syncing' });
+    try {
+      const outcome = await Timeout.wrap(SyncQueueService.pushItem(item), SYNC_TIMEOUT_MS, 'Bill sync');
+      if (outcome === 'synced') {
+        // The bill is saved; its photo now belongs to the upload queue (handed over first so a crash can't lose it)
+        if (item.imageUri) {
+          await ImageUploadService.enqueue(item.localId, item.bill.userId, item.imageUri);
+        }
+        await SyncQueueService.mutate((queue) => queue.filter((queued) => queued.localId !== item.localId));
+        console.log('✅ Synced queued bill', item.localId);
+      }
+    } catch (error: any) {
+      const attempts = item.attempts + 1;
+      const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempts - 1));
+      console.warn(`⚠️ Bill sync failed (attempt ${attempts}), retrying in ${Math.round(delay / 1000)} s:`, error);
+      await SyncQueueService.update(item.localId, {
+        status: 'pending',
+        attempts,
+        nextAttemptAt: Date.now() + delay,
+        lastError: error?.message ?? String(error),
+      });
+    }
+  }
+
+  private static async pushItem(item: PendingBill): Promise<'synced' | 'conflict'> {
+    // Captured offline: the ticket may have been saved meanwhile from another device or the QR scanner
+    if (!item.duplicateChecked) {
+      const duplicate = await DuplicateService.findDuplicate(item.bill.userId, item.bill);
+      if (duplicate && duplicate.bill.id !== item.localId) {
+        await SyncQueueService.update(item.localId, {
+          status: 'conflict',
+          conflictWith: { billId: duplicate.bill.id, savedAt: duplicate.bill.createdAt.toISOString() },
+        });
+        return 'conflict';
+      }
+    }
+
+    await BillService.saveBill(item.bill, item.localId);
+    return 'synced';
+  }
+
+  private static scheduleRetry(queue: PendingBill[]): void {
+    const waiting = queue.filter((item) => item.status === 'pending');
+    if (waiting.length === 0) return;
+
+    const next = Math.min(...waiting.map((item) => item.nextAttemptAt));
+    SyncQueueService.retryTimer = setTimeout(() => {
+      SyncQueueService.retryTimer = null;
+      SyncQueueService.processQueue();
+    }, Math.max(0, next - Date.now()));
+  }
+
+  private static async read(): Promise<PendingBill[]> {
+    try {
+      const stored = await AsyncStorage.getItem(SyncQueueService.STORAGE_KEY);
+      if (!stored) return [];
+      // Dates come back from JSON as strings
+      return (JSON.parse(stored) as PendingBill[]).map((item) => ({
+        ...item,
+        bill: { ...item.bill, date: new Date(item.bill.date) },
+      }));
+    } catch (error) {
+      console.error('Error reading sync queue:', error);
+      return [];
+    }
+  }
+
+  private static mutate(change: (queue: PendingBill[]) => PendingBill[]): Promise<void> {
+    const write = SyncQueueService.writes.then(async () => {
+      const queue = change(await SyncQueueService.read());
+      await AsyncStorage.setItem(SyncQueueService.STORAGE_KEY, JSON.stringify(queue));
+      SyncQueueService.listeners.forEach((listener) => listener(queue));
+    });
+    SyncQueueService.writes = write.catch((error) => console.error('Error writing sync queue:', error));
+    return write;
+  }
+
+  private static update(localId: string, changes: Partial<PendingBill>): Promise<void> {
+    return SyncQueueService.mutate((queue) =>
+      queue.map((item) => (item.localId === localId ? { ...item, ...changes } : item)),
+    );
+  }
+
+  // The picker's files live in the cache, which the OS may clear before the bill syncs
+  private static persistImage(uri: string, localId: string): string | undefined {
+    try {
+      const directory = new Directory(Paths.document, SyncQueueService.IMAGE_DIRECTORY);
+      directory.create({ intermediates: true, idempotent: true });
+      const target = new File(directory, `${localId}.jpg`);
+      new File(uri).copy(target);
+      return target.uri;
+    } catch (error) {
+      console.warn('⚠️ Could not keep a local copy of the ticket image:', error);
+      return undefined;
+    }
+  }
+
+  private static deleteImage(item: PendingBill | undefined): void {
+    if (!item?.imageUri) return;
+    try {
+      const file = new File(item.imageUri);
+      if (file.exists) file.delete();
+    } catch (error) {
+      console.warn('⚠️ Could not delete queued ticket image:', error);
+    }
+  }
+
+  private static createLocalId(userId: string): string {
+    return `${userId}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  }
+}
@@ -0,0 +1,52 @@
+import { Repositories } from '../repositories';
+import { SyncQueueService } from './syncQueue';
+import { ImageUploadService } from './imageUpload';
+import { User } from '../types';
+
+// Accounts created before Firebase Auth were keyed by the digits of the phone number as typed,
+// with or without the country code
+const NATIONAL_NUMBER_DIGITS = 10;
+
+const legacyUserIds = (phoneNumber: string): string[] => {
+  const digits = phoneNumber.replace(/[^0-9]/g, '');
+  return [...new Set([digits, digits.slice(-NATIONAL_NUMBER_DIGITS)])];
+};
+
+export class UserMigrationService {
+  // Move a phone-number-keyed account and its bills to the Firebase UID; returns the UID's profile if there
+  // is one. Safe to repeat: the old profile is only marked migrated after its bills have moved, so an
+  // interrupted run resumes at the next login.
+  static async migrateLegacyUser(uid: string, phoneNumber: string): Promise<User | null> {
+    let migrated: User | null = await Repositories.users.get(uid);
+
+    for (const legacyId of legacyUserIds(phoneNumber)) {
+      if (legacyId === uid) continue;
+
+      const legacy = await Repositories.users.get(legacyId);
+      if (!legacy || legacy.migratedTo) continue;
+
+      console.log(`🔀 Migrating user ${legacyId} to ${uid}`);
+      if (!migrated) {
+        migrated = await Repositories.users.create(uid, {
+          phoneNumber,
+          name: legacy.name,
+          photoUrl: legacy.photoUrl,
+          createdAt: legacy.createdAt,
+        });
+      } else if ((!migrated.name && legacy.name) || (!migrated.photoUrl && legacy.photoUrl)) {
+        // Keep whatever the new profile already has
+        const profile = { name: migrated.name || legacy.name, photoUrl: migrated.photoUrl || legacy.photoUrl };
+        await Repositories.users.update(uid, profile);
+        migrated = { ...migrated, ...profile };
+      }
+
+      const moved = await Repositories.bills.reassignUser(legacyId, uid);
+      await SyncQueueService.reassignUser(legacyId, uid);
+      await ImageUploadService.reassignUser(legacyId, uid);
+      await Repositories.users.markMigrated(legacyId, uid);
+      console.log(`✅ Migrated ${moved} bills from ${legacyId}`);
+    }
+
+    return migrated;
+  }
+}
@@ -1,9 +1,38 @@
 export interface User {
+  // Firebase Auth UID; older accounts used the digits of the phone number
   id: string;
   phoneNumber: string;
   name?: string;
   photoUrl?: string;
   createdAt: Date;
+  // Set on a phone-number-keyed account once it has been moved to its UID
+  migratedTo?: string;
+}
+
+// A signed-in user; profileSynced is false while the server has no profile for them yet
+// (sign-in succeeded but saving the profile did not), until background reconciliation catches up
+export interface AuthSession {
+  user: User;
+  profileSynced: boolean;
+}
+
+// Why a sign-in step was refused, for the login screen to explain
+export type AuthErrorCode = 'invalidCode' | 'expiredCode' | 'tooManyAttempts' | 'resendCooldown';
+
+export interface AuthErrorState {
+  code: AuthErrorCode;
+  message: string;
+  // Epoch ms when the user may try again (lockout or resend cooldown)
+  retryAt?: number;
+  // Wrong codes left before the number is locked out
+  attemptsLeft?: number;
+}
+
+// OTP limits for one phone number; times are epoch ms, null when not in effect
+export interface OtpStatus {
+  resendAvailableAt: number | null;
+  lockedUntil: number | null;
+  attemptsLeft: number;
 }
 
 export interface Bill {
@@ -14,10 +43,201 @@ export interface Bill {
   date: Date;
   from?: string;
   to?: string;
+  // Track distance between from and to along the metro network
+  distanceKm?: number;
+  // Ticket photo in Storage and a small copy for lists, both uploaded after the bill is saved
   imageUrl?: string;
+  thumbnailUrl?: string;
   createdAt: Date;
+  // Cleaned OCR text (or the QR payload for scanned QR codes)
   extractedText?: string;
+  // OCR text as recognised, before cleaning
+  rawText?: string;
+  // QR code content found on the ticket and how it was parsed
+  qrPayload?: string;
+  qrDiagnostics?: QRParseDiagnostics;
+  // CO2 figure as printed on the ticket (e.g. "0.59 g CO2"), kept only as a cross-check
   co2Saved?: string;
+  // CO2 avoided versus the baseline mode, computed from distanceKm
+  co2SavedGrams?: number;
+  co2BaselineMode?: Co2BaselineMode;
+  fieldConfidence?: BillFieldConfidence;
+  userEdits?: BillEdits;
+  // Fields where the ticket's QR code and printed text disagree; absent when only one source was read
+  sourceMismatches?: SourceMismatch[];
+  // Normalised bill number, timestamp, fare and stations, see BillFingerprint
+  fingerprint?: string;
+  // Perceptual hash of the ticket photo, see ImageHash
+  imageHash?: string;
+  updatedAt?: Date;
+  // Set when the bill is soft-deleted; it is hidden from lists and stats until restored
+  deletedAt?: Date;
+  // Client-side only: whether the bill has reached Firestore yet (never stored)
+  syncState?: BillSyncState;
+}
+
+// 'conflict' means the server already has the same ticket and the user must decide what to keep
+export type BillSyncState = 'pending' | 'syncing' | 'conflict' | 'synced';
+
+// A bill captured on this device and waiting in the sync queue
+export interface PendingBill {
+  // Also used as the Firestore document id, so retries never create a second copy
+  localId: string;
+  bill: Omit<Bill, 'id' | 'createdAt'>;
+  // Copy of the ticket photo kept in the app's document directory until the bill syncs
+  imageUri?: string;
+  status: Exclude<BillSyncState, 'synced'>;
+  attempts: number;
+  // Epoch ms before which the item is not retried
+  nextAttemptAt: number;
+  lastError?: string;
+  // The earlier bill on the server this one duplicates, when status is 'conflict'
+  conflictWith?: { billId: string; savedAt: string };
+  // False when the duplicate check at capture time could not reach the server
+  duplicateChecked: boolean;
+  queuedAt: number;
+}
+
+// 'retrying' means the last attempt failed and the next one is scheduled at nextRetryAt
+export type UploadStatus = 'running' | 'paused' | 'retrying' | 'success' | 'canceled' | 'error';
+
+// Live state of one upload in StorageService
+export interface UploadState {
+  id: string;
+  path: string;
+  status: UploadStatus;
+  bytesTransferred: number;
+  totalBytes: number;
+  // 0..1
+  progress: number;
+  attempts: number;
+  nextRetryAt?: number;
+  error?: string;
+}
+
+// A saved bill's ticket photo waiting to be uploaded to Storage
+export interface PendingImageUpload {
+  billId: string;
+  userId: string;
+  // Local copy in the app's document directory, deleted once both uploads are done
+  imageUri: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export type BillImages = Required<Pick<Bill, 'imageUrl' | 'thumbnailUrl'>>;
+
+export type Co2BaselineMode = 'car' | 'twoWheeler' | 'autoRickshaw';
+
+export type BillField = 'billNumber' | 'amount' | 'date' | 'from' | 'to' | 'co2Saved';
+
+// Where a parsed value was read from: the ticket's QR code or its printed text
+export type BillFieldSource = 'qr' | 'ocr';
+
+// A field read differently from the QR code and the printed text, both values formatted for display
+export interface SourceMismatch {
+  field: BillField;
+  qr: string;
+  ocr: string;
+}
+
+// How much a parsed value can be trusted (0 = guessed, 1 = certain) and which corrections produced it
+export interface FieldConfidence {
+  confidence: number;
+  corrections: string[];
+  source?: BillFieldSource;
+}
+
+export type BillFieldConfidence = Partial<Record<BillField, FieldConfidence>>;
+
+// A value the user changed in the review form, before (as extracted) and after
+export interface BillEdit {
+  original: string | number | null;
+  edited: string | number | null;
+}
+
+export type BillEdits = Partial<Record<BillField, BillEdit>>;
+
+export type BillHistoryAction = 'update' | 'delete' | 'restore';
+
+// One append-only audit record in a bill's history subcollection
+export interface BillHistoryEntry {
+  id: string;
+  action: BillHistoryAction;
+  // Who made the change
+  userId: string;
+  // Old and new value of each field an update changed; empty for delete and restore
+  changes: BillEdits;
+  createdAt: Date;
+}
+
+// An earlier bill that a new one duplicates, and how it was recognised
+export interface DuplicateMatch {
+  bill: Bill;
+  reason: 'fingerprint' | 'image';
+  // False when the ticket was saved by another user
+  sameUser: boolean;
+}
+
+// Inclusive bounds on the ticket date; either side may be open
+export interface BillDateRange {
+  from?: Date;
+  to?: Date;
+}
+
+// Opaque position in a bill list; only the repository that returned it can read it
+export type BillPageCursor = unknown;
+
+export interface BillPage {
+  bills: Bill[];
+  // Pass as `after` to fetch the next page; null when there are no more bills
+  cursor: BillPageCursor | null;
+}
+
+// Sums over a user's bills, soft-deleted ones excluded. Only stored distances and savings are summed, so
+// bills saved before those fields existed count as bills without a distance.
+export interface BillTotals {
+  count: number;
+  amount: number;
+  distanceKm: number;
+  billsWithDistance: number;
+  co2SavedGrams: number;
+}
+
+// Fields to change on a stored bill; null removes the field
+export type BillPatch = { [K in keyof Omit<Bill, 'id' | 'userId' | 'createdAt'>]?: Bill[K] | null };
+
+// Storage for bills and their history. Lists are ordered by ticket date, newest first, and include
+// soft-deleted bills; filtering and derived fields are left to BillService.
+export interface BillRepository {
+  // Stores the bill under `id` (or a new id) and returns the id; an existing bill with that id is kept as is
+  create(bill: Omit<Bill, 'id' | 'createdAt'>, id?: string): Promise<string>;
+  get(billId: string): Promise<Bill | null>;
+  listByUser(userId: string, range?: BillDateRange): Promise<Bill[]>;
+  pageByUser(
+    userId: string,
+    options: { pageSize: number; range?: BillDateRange; after?: BillPageCursor | null },
+  ): Promise<BillPage>;
+  // Computed on the server where possible, so the cost does not grow with the user's history
+  totalsByUser(userId: string, range?: BillDateRange): Promise<BillTotals>;
+  // Bills of every user, for duplicate checks across accounts
+  listByFingerprint(fingerprint: string): Promise<Bill[]>;
+  // The patch and its history entry are written together or not at all
+  update(billId: string, patch: BillPatch, entry: Omit<BillHistoryEntry, 'id' | 'createdAt'>): Promise<void>;
+  // Record the uploaded ticket images; not a user edit, so no history entry
+  attachImages(billId: string, images: BillImages): Promise<void>;
+  // Newest first
+  getHistory(billId: string): Promise<BillHistoryEntry[]>;
+  // Move every bill of one user to another; returns how many were moved
+  reassignUser(fromUserId: string, toUserId: string): Promise<number>;
+}
+
+export interface UserRepository {
+  get(userId: string): Promise<User | null>;
+  findByPhoneNumber(phoneNumber: string): Promise<User | null>;
+  create(userId: string, user: Omit<User, 'id'>): Promise<User>;
+  update(userId: string, data: Partial<Pick<User, 'name' | 'photoUrl'>>): Promise<void>;
+  markMigrated(userId: string, toUserId: string): Promise<void>;
 }
 
 export interface ExpenseStats {
@@ -25,6 +245,9 @@ export interface ExpenseStats {
   totalDistance: number;
   averageExpense: number;
   billCount: number;
+  // Bills whose stations are missing or unrecognised, so they add nothing to totalDistance
+  billsWithoutDistance: number;
+  // Grams
   totalCo2Saved: number;
 }
 
@@ -33,3 +256,86 @@ export interface OTPVerification {
   otp: string;
   verified: boolean;
 }
+
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Named ImageCompressor settings, one per use of a photo
+export type CompressionProfile = 'ocr' | 'archival' | 'thumbnail' | 'avatar';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Ticket outline in image pixels: top-left, top-right, bottom-right, bottom-left
+export type TicketCorners = [Point, Point, Point, Point];
+
+// Problems found by the pre-OCR quality check, see ImageQuality
+export type ImageQualityIssue = 'lowResolution' | 'blurry' | 'tooDark' | 'tooBright' | 'noTicket';
+
+export interface ImageQualityReport {
+  // Of the photo as captured
+  width: number;
+  height: number;
+  // Variance of the Laplacian; low means few sharp edges, i.e. blur
+  blurScore: number;
+  // Mean luminance, 0..255
+  brightness: number;
+  // Share of pixels on a strong edge (ticket border or print)
+  edgeDensity: number;
+  issues: ImageQualityIssue[];
+}
+
+export type OCREngineId = 'mlkit-latin' | 'mlkit-devanagari' | 'paddle' | 'stub';
+
+export interface OCRLine {
+  text: string;
+  confidence: number;
+  box: BoundingBox;
+  engine?: OCREngineId;
+}
+
+export type MetroLine = 'purple' | 'aqua';
+
+export interface MetroStation {
+  code: string;
+  name: string;
+  nameMarathi: string;
+  // Other spellings and former names seen on tickets and signage
+  aliases: string[];
+  // Position of the station along each line it serves (1-based, from the line's first terminus)
+  lines: Partial<Record<MetroLine, number>>;
+  latitude: number;
+  longitude: number;
+}
+
+export interface StationMatch {
+  station: MetroStation;
+  // Similarity between the input and the matched name (0-1)
+  score: number;
+}
+
+// Which parser understood a QR payload
+export type QRPayloadFormat = 'json' | 'keyValue' | 'metro' | 'freeText';
+
+export interface QRParseDiagnostics {
+  // Parsers tried in order, and the one whose result was used (null when none matched)
+  attempted: QRPayloadFormat[];
+  format: QRPayloadFormat | null;
+  // Bill fields that were decoded
+  fields: BillField[];
+  // Station codes in the payload that are not in the station registry
+  unknownStationCodes: string[];
+  warnings: string[];
+}
+
+export interface ParsedQRCode {
+  raw: string;
+  bill: Partial<Bill> | null;
+  diagnostics: QRParseDiagnostics;
+}
@@ -0,0 +1,55 @@
+import { StationService } from '../services/stations';
+import { Bill } from '../types';
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+type FingerprintFields = Pick<Bill, 'billNumber' | 'date' | 'amount' | 'from' | 'to'> &
+  Pick<Partial<Bill>, 'fieldConfidence'>;
+
+export class BillFingerprint {
+  // Stable identity of a ticket: bill number, travel date, fare and station codes, each normalised so the
+  // same ticket read via QR or OCR produces the same string. The time is left out because printed text
+  // often yields a date without one; sameTicket compares it when both sides have it.
+  static compute(bill: FingerprintFields): string {
+    const date = bill.date;
+    const day = date && !Number.isNaN(date.getTime())
+      ? `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`
+      : '';
+
+    return [
+      BillFingerprint.billNumber(bill.billNumber),
+      day,
+      Math.round(bill.amount * 100).toString(),
+      BillFingerprint.station(bill.from),
+      BillFingerprint.station(bill.to),
+    ].join('|');
+  }
+
+  // Same fingerprint, and the same minute when both bills carry a time of day
+  static sameTicket(a: FingerprintFields, b: FingerprintFields): boolean {
+    if (BillFingerprint.compute(a) !== BillFingerprint.compute(b)) return false;
+    if (!BillFingerprint.hasTime(a) || !BillFingerprint.hasTime(b)) return true;
+    return a.date.getHours() === b.date.getHours() && a.date.getMinutes() === b.date.getMinutes();
+  }
+
+  // Ignore separators and the letter/digit pairs OCR confuses
+  static billNumber(billNumber: string): string {
+    return billNumber
+      .toUpperCase()
+      .replace(/[^A-Z0-9]/g, '')
+      .replace(/O/g, '0')
+      .replace(/[IL]/g, '1');
+  }
+
+  // Midnight means no time was read; a date scored 0 is the parser's "today" default
+  private static hasTime(bill: FingerprintFields): boolean {
+    if (!bill.date || Number.isNaN(bill.date.getTime())) return false;
+    if (bill.fieldConfidence?.date?.confidence === 0) return false;
+    return bill.date.getHours() !== 0 || bill.date.getMinutes() !== 0;
+  }
+
+  private static station(name: string | undefined): string {
+    if (!name || name === 'Unknown') return '';
+    return StationService.match(name)?.station.code ?? name.trim().toUpperCase();
+  }
+}
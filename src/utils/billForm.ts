@@ -0,0 +1,171 @@
+import { Bill, BillEdits, BillField } from '../types';
+import { MetroFares } from './metroFares';
+import { StationService } from '../services/stations';
+
+// Raw text of the review form; dates are DD/MM/YYYY and times HH:MM (24h)
+export interface BillFormValues {
+  billNumber: string;
+  date: string;
+  time: string;
+  amount: string;
+  from: string;
+  to: string;
+  co2Saved: string;
+}
+
+export type BillFormField = keyof BillFormValues;
+export type BillFormMessages = Partial<Record<BillFormField, string>>;
+
+export interface BillFormValidation {
+  // Errors block saving, warnings are only shown
+  errors: BillFormMessages;
+  warnings: BillFormMessages;
+}
+
+type ReviewedBill = Pick<Bill, 'billNumber' | 'amount' | 'date' | 'from' | 'to' | 'co2Saved'>;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+export class BillForm {
+  static fromBill(bill: Partial<Bill>): BillFormValues {
+    const date = bill.date && !Number.isNaN(bill.date.getTime()) ? bill.date : undefined;
+    const co2Match = bill.co2Saved?.match(/(\d+(?:\.\d+)?)/);
+
+    return {
+      billNumber: bill.billNumber || '',
+      date: date ? `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}` : '',
+      time: date ? `${pad(date.getHours())}:${pad(date.getMinutes())}` : '',
+      amount: bill.amount ? bill.amount.toString() : '',
+      from: bill.from && bill.from !== 'Unknown' ? bill.from : '',
+      to: bill.to && bill.to !== 'Unknown' ? bill.to : '',
+      co2Saved: co2Match ? co2Match[1] : '',
+    };
+  }
+
+  static validate(values: BillFormValues, now: Date = new Date()): BillFormValidation {
+    const errors: BillFormMessages = {};
+    const warnings: BillFormMessages = {};
+
+    const billNumber = values.billNumber.trim();
+    if (!billNumber) {
+      errors.billNumber = 'Bill number is required';
+    } else if (!/^[A-Z0-9:\-\/.]+$/i.test(billNumber)) {
+      errors.billNumber = 'Use only letters, digits and : - / .';
+    }
+
+    const time = values.time.trim();
+    if (time && !/^\d{1,2}:\d{2}$/.test(time)) {
+      errors.time = 'Enter the time as HH:MM';
+    } else if (time && !BillForm.parseTime(time)) {
+      errors.time = 'Enter a time between 00:00 and 23:59';
+    }
+
+    // The date is judged on its own so a bad time does not show up as a date error
+    const day = BillForm.parseDateTime(values.date, '');
+    const date = errors.time ? day : BillForm.parseDateTime(values.date, values.time);
+    if (!values.date.trim()) {
+      errors.date = 'Date is required';
+    } else if (!day) {
+      errors.date = 'Enter the date as DD/MM/YYYY';
+    } else if (date && date.getTime() > now.getTime()) {
+      errors.date = 'Date cannot be in the future';
+    }
+
+    const amount = parseFloat(values.amount);
+    if (!values.amount.trim()) {
+      errors.amount = 'Fare is required';
+    } else if (Number.isNaN(amount) || !/^\d+(?:\.\d{1,2})?$/.test(values.amount.trim())) {
+      errors.amount = 'Enter the fare as a number, e.g. 20 or 17.50';
+    } else if (!MetroFares.isInRange(amount)) {
+      errors.amount = `Metro fares are between ₹${MetroFares.minimumFare} and ₹${MetroFares.maximumFare}`;
+    } else if (!MetroFares.isKnownFare(amount)) {
+      warnings.amount = 'This fare is not in the metro fare table, please double-check it';
+    }
+
+    (['from', 'to'] as const).forEach((field) => {
+      if (values[field].trim() && !StationService.match(values[field])) {
+        warnings[field] = 'Not a known Pune Metro station';
+      }
+    });
+    const from = BillForm.canonicalStation(values.from);
+    if (from && from.toLowerCase() === BillForm.canonicalStation(values.to).toLowerCase()) {
+      errors.to = 'Destination must differ from the origin station';
+    }
+
+    if (values.co2Saved.trim()) {
+      const co2 = parseFloat(values.co2Saved);
+      if (Number.isNaN(co2) || co2 < 0) {
+        errors.co2Saved = 'Enter CO2 saved in grams, e.g. 0.59';
+      }
+    }
+
+    return { errors, warnings };
+  }
+
+  static isValid(validation: BillFormValidation): boolean {
+    return Object.keys(validation.errors).length === 0;
+  }
+
+  // Only call with values that passed validation
+  static toBill(values: BillFormValues): ReviewedBill {
+    const co2 = parseFloat(values.co2Saved);
+    return {
+      billNumber: values.billNumber.trim().toUpperCase(),
+      amount: parseFloat(values.amount) || 0,
+      date: BillForm.parseDateTime(values.date, values.time) ?? new Date(),
+      from: BillForm.canonicalStation(values.from),
+      to: BillForm.canonicalStation(values.to),
+      co2Saved: Number.isNaN(co2) ? '' : `${co2} g CO2`,
+    };
+  }
+
+  // Fields the user changed compared to what was extracted, both sides normalised through the form
+  static diff(extracted: Partial<Bill>, edited: BillFormValues): BillEdits {
+    const original = BillForm.toBill(BillForm.fromBill(extracted));
+    const updated = BillForm.toBill(edited);
+    const fields: BillField[] = ['billNumber', 'amount', 'date', 'from', 'to', 'co2Saved'];
+
+    return fields.reduce<BillEdits>((edits, field) => {
+      const before = BillForm.comparable(original[field]);
+      const after = BillForm.comparable(updated[field]);
+      if (before !== after) {
+        edits[field] = { original: before, edited: after };
+      }
+      return edits;
+    }, {});
+  }
+
+  private static canonicalStation(name: string): string {
+    const trimmed = name.trim();
+    return trimmed ? StationService.match(trimmed)?.station.name ?? trimmed : '';
+  }
+
+  private static comparable(value: string | number | Date | undefined): string | number | null {
+    if (value instanceof Date) return value.toISOString();
+    if (value === undefined || value === '') return null;
+    return value;
+  }
+
+  private static parseDateTime(dateText: string, timeText: string): Date | undefined {
+    const dateMatch = dateText.trim().match(/^(\d{1,2})[\/-](\d{1,2})[\/-](\d{4})$/);
+    if (!dateMatch) return undefined;
+
+    const [, day, month, year] = dateMatch.map(Number);
+    const time = timeText.trim() ? BillForm.parseTime(timeText) : { hours: 0, minutes: 0 };
+    if (!time) return undefined;
+
+    const date = new Date(year, month - 1, day, time.hours, time.minutes);
+    // Reject roll-overs such as 31/02
+    if (date.getDate() !== day || date.getMonth() !== month - 1) return undefined;
+    return date;
+  }
+
+  private static parseTime(timeText: string): { hours: number; minutes: number } | undefined {
+    const timeMatch = timeText.trim().match(/^(\d{1,2}):(\d{2})$/);
+    if (!timeMatch) return undefined;
+
+    const hours = Number(timeMatch[1]);
+    const minutes = Number(timeMatch[2]);
+    return hours <= 23 && minutes <= 59 ? { hours, minutes } : undefined;
+  }
+}
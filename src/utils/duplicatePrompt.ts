@@ -0,0 +1,25 @@
+import { Alert } from 'react-native';
+import { DuplicateService } from '../services/duplicates';
+import { DuplicateMatch } from '../types';
+
+export class DuplicatePrompt {
+  // Tell the user the ticket is already saved; resolves true only if they choose to save anyway,
+  // which is offered for look-alike photos but not for a matching fingerprint
+  static confirm(match: DuplicateMatch, onViewBills: () => void): Promise<boolean> {
+    return new Promise((resolve) => {
+      const message = DuplicateService.describe(match);
+      if (match.sameUser && match.reason === 'image') {
+        Alert.alert('Possible duplicate', `${message}\n\nSave this bill anyway?`, [
+          { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+          { text: 'Save Anyway', onPress: () => resolve(true) },
+        ], { cancelable: false });
+        return;
+      }
+
+      Alert.alert('Already saved', message, [
+        ...(match.sameUser ? [{ text: 'View Bills', onPress: () => { resolve(false); onViewBills(); } }] : []),
+        { text: 'OK', style: 'cancel' as const, onPress: () => resolve(false) },
+      ], { cancelable: false });
+    });
+  }
+}
@@ -1,18 +1,151 @@
 import * as ImageManipulator from 'expo-image-manipulator';
+import { File } from 'expo-file-system';
+import { ImageDecoder } from './imageDecoder';
+import { CompressionProfile } from '../types';
+
+interface ProfileSettings {
+  // Longest side in pixels; smaller images are never upscaled
+  maxSide: number;
+  // JPEG quality, 0..1; the starting point when maxBytes is set
+  quality: number;
+  // Target file size: quality is lowered until the file fits
+  maxBytes?: number;
+  // Centre square crop, as for avatars
+  square?: boolean;
+  // Grayscale with the contrast stretched, which suits faded thermal print
+  enhanceForOcr?: boolean;
+}
+
+const PROFILES: Record<CompressionProfile, ProfileSettings> = {
+  ocr: { maxSide: 1600, quality: 0.9, enhanceForOcr: true },
+  archival: { maxSide: 1280, quality: 0.7, maxBytes: 250 * 1024 },
+  thumbnail: { maxSide: 240, quality: 0.7 },
+  avatar: { maxSide: 256, quality: 0.8, maxBytes: 40 * 1024, square: true },
+};
+
+// Quality is never lowered below this to meet maxBytes; the file is kept even if still too large
+const MIN_QUALITY = 0.3;
+const QUALITY_SEARCH_STEPS = 5;
+// Percentiles mapped to black and white by the contrast stretch
+const STRETCH_LOW = 0.01;
+const STRETCH_HIGH = 0.99;
 
 export class ImageCompressor {
-  static async compressImage(uri: string): Promise<string> {
+  // Every profile re-encodes through the image manipulator, which applies the EXIF orientation to the
+  // pixels and drops the tag, so later steps (and jpeg-js) see the photo upright
+  static async compress(uri: string, profile: CompressionProfile): Promise<string> {
+    const settings = PROFILES[profile];
     try {
-      const manipulatedImage = await ImageManipulator.manipulateAsync(
-        uri,
-        [{ resize: { width: 1024 } }], // Resize to max width of 1024px
-        { compress: 0.7, format: ImageManipulator.SaveFormat.JPEG }
-      );
-      
-      return manipulatedImage.uri;
+      const actions = await ImageCompressor.resizeActions(uri, settings);
+      const result = settings.maxBytes
+        ? await ImageCompressor.encodeWithin(uri, actions, settings.quality, settings.maxBytes)
+        : await ImageCompressor.encode(uri, actions, settings.enhanceForOcr ? 1 : settings.quality);
+
+      return settings.enhanceForOcr ? await ImageCompressor.enhanceForOcr(result, settings.quality) : result;
     } catch (error) {
-      console.error('Error compressing image:', error);
+      console.error(`Error compressing image (${profile}):`, error);
       throw error;
     }
   }
+
+  // Smaller, lightly compressed copy for detectors that struggle with full-resolution photos
+  static async downscale(uri: string, maxWidth: number): Promise<string> {
+    const manipulatedImage = await ImageManipulator.manipulateAsync(
+      uri,
+      [{ resize: { width: maxWidth } }],
+      { compress: 0.9, format: ImageManipulator.SaveFormat.JPEG }
+    );
+
+    return manipulatedImage.uri;
+  }
+
+  private static async resizeActions(uri: string, settings: ProfileSettings): Promise<ImageManipulator.Action[]> {
+    const { width, height } = await ImageManipulator.manipulateAsync(uri, []);
+
+    if (settings.square) {
+      const side = Math.min(width, height);
+      const size = Math.min(side, settings.maxSide);
+      return [
+        { crop: { originX: (width - side) / 2, originY: (height - side) / 2, width: side, height: side } },
+        { resize: { width: size, height: size } },
+      ];
+    }
+
+    if (Math.max(width, height) <= settings.maxSide) return [];
+    return [{ resize: width >= height ? { width: settings.maxSide } : { height: settings.maxSide } }];
+  }
+
+  private static async encode(uri: string, actions: ImageManipulator.Action[], quality: number): Promise<string> {
+    const result = await ImageManipulator.manipulateAsync(uri, actions, {
+      compress: quality,
+      format: ImageManipulator.SaveFormat.JPEG,
+    });
+    return result.uri;
+  }
+
+  // Highest quality whose file fits in maxBytes, found by bisection
+  private static async encodeWithin(
+    uri: string,
+    actions: ImageManipulator.Action[],
+    quality: number,
+    maxBytes: number
+  ): Promise<string> {
+    const first = await ImageCompressor.encode(uri, actions, quality);
+    if (new File(first).size <= maxBytes) return first;
+
+    let low = MIN_QUALITY;
+    let high = quality;
+    let best: string | null = null;
+    for (let step = 0; step < QUALITY_SEARCH_STEPS; step += 1) {
+      const candidateQuality = (low + high) / 2;
+      const candidate = await ImageCompressor.encode(uri, actions, candidateQuality);
+      if (new File(candidate).size <= maxBytes) {
+        best = candidate;
+        low = candidateQuality;
+      } else {
+        high = candidateQuality;
+      }
+    }
+
+    if (best) return best;
+    console.warn(`⚠️ Could not compress image under ${Math.round(maxBytes / 1024)} KB`);
+    return ImageCompressor.encode(uri, actions, MIN_QUALITY);
+  }
+
+  // Grayscale, then stretch the luminance so the 1st and 99th percentiles become black and white
+  private static async enhanceForOcr(uri: string, quality: number): Promise<string> {
+    const image = await ImageDecoder.decode(uri);
+    const pixelCount = image.width * image.height;
+    const gray = new Uint8Array(pixelCount);
+    const histogram = new Array<number>(256).fill(0);
+    for (let index = 0; index < pixelCount; index += 1) {
+      const offset = index * 4;
+      const value = Math.round(
+        0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2]
+      );
+      gray[index] = value;
+      histogram[value] += 1;
+    }
+
+    const percentile = (share: number) => {
+      let seen = 0;
+      for (let value = 0; value < 256; value += 1) {
+        seen += histogram[value];
+        if (seen >= share * pixelCount) return value;
+      }
+      return 255;
+    };
+    const low = percentile(STRETCH_LOW);
+    const range = Math.max(1, percentile(STRETCH_HIGH) - low);
+
+    for (let index = 0; index < pixelCount; index += 1) {
+      const value = Math.min(255, Math.max(0, Math.round(((gray[index] - low) * 255) / range)));
+      const offset = index * 4;
+      image.data[offset] = value;
+      image.data[offset + 1] = value;
+      image.data[offset + 2] = value;
+    }
+
+    return ImageDecoder.writeJpeg(image, quality);
+  }
 }
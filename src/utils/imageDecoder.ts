@@ -0,0 +1,157 @@
+import * as ImageManipulator from 'expo-image-manipulator';
+import * as jpeg from 'jpeg-js';
+import { File, Paths } from 'expo-file-system';
+
+// Raw RGBA pixels (4 bytes per pixel, row-major)
+export interface DecodedImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export class ImageDecoder {
+  // Decode an image file into RGBA pixels, downscaling so the longest side is at most maxSide
+  static async decode(uri: string, maxSide?: number): Promise<DecodedImage> {
+    try {
+      const actions: ImageManipulator.Action[] = [];
+      if (maxSide) {
+        const probe = await ImageManipulator.manipulateAsync(uri, []);
+        const longest = Math.max(probe.width, probe.height);
+        if (longest > maxSide) {
+          actions.push({
+            resize: probe.width >= probe.height ? { width: maxSide } : { height: maxSide },
+          });
+        }
+      }
+
+      const result = await ImageManipulator.manipulateAsync(uri, actions, {
+        compress: 1,
+        format: ImageManipulator.SaveFormat.JPEG,
+        base64: true,
+      });
+
+      if (!result.base64) {
+        throw new Error('Image manipulator returned no pixel data');
+      }
+
+      const decoded = jpeg.decode(ImageDecoder.base64ToBytes(result.base64), {
+        useTArray: true,
+        formatAsRGBA: true,
+      });
+
+      return { width: decoded.width, height: decoded.height, data: decoded.data };
+    } catch (error) {
+      console.error('Error decoding image:', error);
+      throw error;
+    }
+  }
+
+  // Copy a rectangular region out of an image (clamped to its bounds)
+  static crop(image: DecodedImage, x: number, y: number, width: number, height: number): DecodedImage {
+    const left = Math.max(0, Math.floor(x));
+    const top = Math.max(0, Math.floor(y));
+    const right = Math.min(image.width, Math.ceil(x + width));
+    const bottom = Math.min(image.height, Math.ceil(y + height));
+    const cropWidth = Math.max(1, right - left);
+    const cropHeight = Math.max(1, bottom - top);
+
+    const data = new Uint8Array(cropWidth * cropHeight * 4);
+    for (let row = 0; row < cropHeight; row += 1) {
+      const sourceStart = ((top + row) * image.width + left) * 4;
+      data.set(image.data.subarray(sourceStart, sourceStart + cropWidth * 4), row * cropWidth * 4);
+    }
+
+    return { width: cropWidth, height: cropHeight, data };
+  }
+
+  // Bilinear resize to an exact size
+  static resize(image: DecodedImage, width: number, height: number): DecodedImage {
+    const data = new Uint8Array(width * height * 4);
+    const xRatio = image.width / width;
+    const yRatio = image.height / height;
+
+    for (let y = 0; y < height; y += 1) {
+      const sourceY = Math.min(image.height - 1, Math.max(0, (y + 0.5) * yRatio - 0.5));
+      const y0 = Math.floor(sourceY);
+      const y1 = Math.min(image.height - 1, y0 + 1);
+      const dy = sourceY - y0;
+
+      for (let x = 0; x < width; x += 1) {
+        const sourceX = Math.min(image.width - 1, Math.max(0, (x + 0.5) * xRatio - 0.5));
+        const x0 = Math.floor(sourceX);
+        const x1 = Math.min(image.width - 1, x0 + 1);
+        const dx = sourceX - x0;
+
+        const topLeft = (y0 * image.width + x0) * 4;
+        const topRight = (y0 * image.width + x1) * 4;
+        const bottomLeft = (y1 * image.width + x0) * 4;
+        const bottomRight = (y1 * image.width + x1) * 4;
+        const target = (y * width + x) * 4;
+
+        for (let channel = 0; channel < 4; channel += 1) {
+          const topValue = image.data[topLeft + channel] * (1 - dx) + image.data[topRight + channel] * dx;
+          const bottomValue = image.data[bottomLeft + channel] * (1 - dx) + image.data[bottomRight + channel] * dx;
+          data[target + channel] = Math.round(topValue * (1 - dy) + bottomValue * dy);
+        }
+      }
+    }
+
+    return { width, height, data };
+  }
+
+  // Write pixels to a JPEG file. jpeg-js's encoder needs Node's Buffer, so the pixels go out as a BMP
+  // and the platform converts that.
+  static async writeJpeg(image: DecodedImage, quality = 0.9): Promise<string> {
+    const bitmap = new File(Paths.cache, `pixels_${Date.now()}.bmp`);
+    try {
+      bitmap.write(ImageDecoder.encodeBmp(image));
+      const result = await ImageManipulator.manipulateAsync(bitmap.uri, [], {
+        compress: quality,
+        format: ImageManipulator.SaveFormat.JPEG,
+      });
+      return result.uri;
+    } finally {
+      if (bitmap.exists) bitmap.delete();
+    }
+  }
+
+  // 24-bit bottom-up BMP, rows padded to 4 bytes
+  private static encodeBmp(image: DecodedImage): Uint8Array {
+    const rowSize = Math.ceil((image.width * 3) / 4) * 4;
+    const headerSize = 54;
+    const bytes = new Uint8Array(headerSize + rowSize * image.height);
+    const view = new DataView(bytes.buffer);
+
+    bytes[0] = 0x42; // 'B'
+    bytes[1] = 0x4d; // 'M'
+    view.setUint32(2, bytes.length, true);
+    view.setUint32(10, headerSize, true);
+    view.setUint32(14, 40, true);
+    view.setInt32(18, image.width, true);
+    view.setInt32(22, image.height, true);
+    view.setUint16(26, 1, true);
+    view.setUint16(28, 24, true);
+    view.setUint32(34, rowSize * image.height, true);
+
+    for (let y = 0; y < image.height; y += 1) {
+      const rowStart = headerSize + (image.height - 1 - y) * rowSize;
+      for (let x = 0; x < image.width; x += 1) {
+        const source = (y * image.width + x) * 4;
+        const target = rowStart + x * 3;
+        bytes[target] = image.data[source + 2];
+        bytes[target + 1] = image.data[source + 1];
+        bytes[target + 2] = image.data[source];
+      }
+    }
+    return bytes;
+  }
+
+  private static base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let index = 0; index < binary.length; index += 1) {
+      bytes[index] = binary.charCodeAt(index);
+    }
+    return bytes;
+  }
+}
@@ -0,0 +1,46 @@
+import { ImageDecoder } from './imageDecoder';
+
+// dHash: compare horizontally adjacent pixels of a 9x8 grayscale thumbnail, giving 64 bits
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+// The platform resizer does the heavy downsampling so the final 9x8 step does not alias
+const DECODE_MAX_SIDE = 64;
+
+export class ImageHash {
+  // 16-character hex perceptual hash; photos of the same ticket land within a few bits of each other
+  static async compute(uri: string): Promise<string> {
+    const decoded = await ImageDecoder.decode(uri, DECODE_MAX_SIDE);
+    const thumbnail = ImageDecoder.resize(decoded, HASH_WIDTH, HASH_HEIGHT);
+
+    const gray: number[] = [];
+    for (let index = 0; index < thumbnail.data.length; index += 4) {
+      const [r, g, b] = [thumbnail.data[index], thumbnail.data[index + 1], thumbnail.data[index + 2]];
+      gray.push(0.299 * r + 0.587 * g + 0.114 * b);
+    }
+
+    let hash = '';
+    for (let row = 0; row < HASH_HEIGHT; row += 1) {
+      let byte = 0;
+      for (let col = 0; col < HASH_WIDTH - 1; col += 1) {
+        const left = gray[row * HASH_WIDTH + col];
+        const right = gray[row * HASH_WIDTH + col + 1];
+        byte = (byte << 1) | (left > right ? 1 : 0);
+      }
+      hash += byte.toString(16).padStart(2, '0');
+    }
+    return hash;
+  }
+
+  // Number of differing bits between two hashes of equal length
+  static distance(a: string, b: string): number {
+    let bits = 0;
+    for (let index = 0; index < Math.min(a.length, b.length); index += 1) {
+      let diff = parseInt(a[index], 16) ^ parseInt(b[index], 16);
+      while (diff) {
+        bits += diff & 1;
+        diff >>= 1;
+      }
+    }
+    return bits;
+  }
+}
@@ -0,0 +1,102 @@
+import * as ImageManipulator from 'expo-image-manipulator';
+import { DecodedImage, ImageDecoder } from './imageDecoder';
+import { ImageQualityIssue, ImageQualityReport } from '../types';
+
+// Scores are computed on a copy this size, so the thresholds below do not depend on the camera
+const ANALYSIS_MAX_SIDE = 512;
+// Ticket text gets too few pixels below this
+const MIN_SHORT_SIDE = 480;
+// Laplacian variance under which printed text is smeared
+const MIN_BLUR_SCORE = 120;
+const MIN_BRIGHTNESS = 60;
+const MAX_BRIGHTNESS = 220;
+// Sobel magnitude for a pixel to count as an edge, and the share of edge pixels a ticket produces at least
+const EDGE_MAGNITUDE = 100;
+const MIN_EDGE_DENSITY = 0.02;
+
+// Luminance, one value per pixel
+interface GrayImage {
+  width: number;
+  height: number;
+  pixels: Float32Array;
+}
+
+// Cheap checks run before OCR, so an unreadable photo is retaken instead of producing bad data
+export class ImageQuality {
+  static async assess(uri: string): Promise<ImageQualityReport> {
+    const { width, height } = await ImageManipulator.manipulateAsync(uri, []);
+    const gray = ImageQuality.toGray(await ImageDecoder.decode(uri, ANALYSIS_MAX_SIDE));
+
+    const brightness = gray.pixels.reduce((sum, value) => sum + value, 0) / gray.pixels.length;
+    const blurScore = ImageQuality.laplacianVariance(gray);
+    const edgeDensity = ImageQuality.edgeDensity(gray);
+
+    const issues: ImageQualityIssue[] = [];
+    if (Math.min(width, height) < MIN_SHORT_SIDE) issues.push('lowResolution');
+    if (brightness < MIN_BRIGHTNESS) issues.push('tooDark');
+    if (brightness > MAX_BRIGHTNESS) issues.push('tooBright');
+    if (edgeDensity < MIN_EDGE_DENSITY) {
+      issues.push('noTicket');
+    } else if (blurScore < MIN_BLUR_SCORE) {
+      // An empty frame has no edges to be sharp, so only judge blur when there is something in it
+      issues.push('blurry');
+    }
+
+    console.log(
+      `🔎 Image quality: ${width}x${height}, blur ${blurScore.toFixed(0)}, brightness ${brightness.toFixed(0)}, edges ${(edgeDensity * 100).toFixed(1)}%`,
+    );
+    return { width, height, blurScore, brightness, edgeDensity, issues };
+  }
+
+  private static toGray(image: DecodedImage): GrayImage {
+    const pixels = new Float32Array(image.width * image.height);
+    for (let index = 0; index < pixels.length; index += 1) {
+      const offset = index * 4;
+      pixels[index] = 0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2];
+    }
+    return { width: image.width, height: image.height, pixels };
+  }
+
+  // 4-neighbour Laplacian over the interior
+  private static laplacianVariance({ width, height, pixels }: GrayImage): number {
+    let sum = 0;
+    let sumSquares = 0;
+    let count = 0;
+    for (let y = 1; y < height - 1; y += 1) {
+      for (let x = 1; x < width - 1; x += 1) {
+        const index = y * width + x;
+        const value =
+          pixels[index - width] + pixels[index + width] + pixels[index - 1] + pixels[index + 1] - 4 * pixels[index];
+        sum += value;
+        sumSquares += value * value;
+        count += 1;
+      }
+    }
+    if (count === 0) return 0;
+    const mean = sum / count;
+    return sumSquares / count - mean * mean;
+  }
+
+  private static edgeDensity({ width, height, pixels }: GrayImage): number {
+    let edges = 0;
+    let count = 0;
+    for (let y = 1; y < height - 1; y += 1) {
+      for (let x = 1; x < width - 1; x += 1) {
+        const index = y * width + x;
+        const topLeft = pixels[index - width - 1];
+        const top = pixels[index - width];
+        const topRight = pixels[index - width + 1];
+        const left = pixels[index - 1];
+        const right = pixels[index + 1];
+        const bottomLeft = pixels[index + width - 1];
+        const bottom = pixels[index + width];
+        const bottomRight = pixels[index + width + 1];
+        const gx = topRight + 2 * right + bottomRight - topLeft - 2 * left - bottomLeft;
+        const gy = bottomLeft + 2 * bottom + bottomRight - topLeft - 2 * top - topRight;
+        if (Math.hypot(gx, gy) > EDGE_MAGNITUDE) edges += 1;
+        count += 1;
+      }
+    }
+    return count === 0 ? 0 : edges / count;
+  }
+}
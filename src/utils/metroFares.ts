@@ -0,0 +1,38 @@
+// Pune Metro single-journey fare slabs in ₹ (minimum ₹10, maximum ₹35)
+export const METRO_FARE_SLABS = [10, 15, 20, 25, 30, 35];
+
+// Multipliers applied on top of a slab: full fare, 10% off digital/QR tickets,
+// 30% off on weekends, public holidays and student concessions
+export const METRO_FARE_DISCOUNTS = [1, 0.9, 0.7];
+
+// Printed fares are rounded, so allow a small difference when matching the table
+const FARE_TOLERANCE = 0.5;
+
+export class MetroFares {
+  static get minimumFare(): number {
+    return Math.min(...METRO_FARE_SLABS) * Math.min(...METRO_FARE_DISCOUNTS);
+  }
+
+  static get maximumFare(): number {
+    return Math.max(...METRO_FARE_SLABS) * Math.max(...METRO_FARE_DISCOUNTS);
+  }
+
+  static allFares(): number[] {
+    const fares = METRO_FARE_SLABS.flatMap((slab) =>
+      METRO_FARE_DISCOUNTS.map((discount) => parseFloat((slab * discount).toFixed(2))),
+    );
+    return Array.from(new Set(fares)).sort((a, b) => a - b);
+  }
+
+  static isInRange(amount: number): boolean {
+    return amount >= MetroFares.minimumFare - FARE_TOLERANCE && amount <= MetroFares.maximumFare + FARE_TOLERANCE;
+  }
+
+  static isKnownFare(amount: number): boolean {
+    return MetroFares.allFares().some((fare) => MetroFares.sameFare(fare, amount));
+  }
+
+  static sameFare(a: number, b: number): boolean {
+    return Math.abs(a - b) <= FARE_TOLERANCE;
+  }
+}
@@ -0,0 +1,102 @@
+import { DecodedImage } from './imageDecoder';
+import { Point, TicketCorners } from '../types';
+
+// 3x3 projective transform, row-major with the last entry fixed at 1
+type Homography = number[];
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export class PerspectiveWarp {
+  // Size of the flattened ticket: the longer of each pair of opposite edges
+  static outputSize(corners: TicketCorners): { width: number; height: number } {
+    const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+    return {
+      width: Math.round(Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight))),
+      height: Math.round(Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight))),
+    };
+  }
+
+  // Map the quadrilateral onto an upright width x height rectangle
+  static warp(image: DecodedImage, corners: TicketCorners, width: number, height: number): DecodedImage {
+    // Maps output pixels back into the source, so every output pixel gets a sample
+    const transform = PerspectiveWarp.homography(
+      [
+        { x: 0, y: 0 },
+        { x: width - 1, y: 0 },
+        { x: width - 1, y: height - 1 },
+        { x: 0, y: height - 1 },
+      ],
+      corners,
+    );
+
+    const data = new Uint8Array(width * height * 4);
+    for (let y = 0; y < height; y += 1) {
+      for (let x = 0; x < width; x += 1) {
+        const w = transform[6] * x + transform[7] * y + 1;
+        const sourceX = (transform[0] * x + transform[1] * y + transform[2]) / w;
+        const sourceY = (transform[3] * x + transform[4] * y + transform[5]) / w;
+        PerspectiveWarp.sample(image, sourceX, sourceY, data, (y * width + x) * 4);
+      }
+    }
+    return { width, height, data };
+  }
+
+  // Solve for the transform taking each `from` point to the matching `to` point
+  static homography(from: Point[], to: Point[]): Homography {
+    const rows: number[][] = [];
+    for (let index = 0; index < 4; index += 1) {
+      const { x, y } = from[index];
+      const { x: u, y: v } = to[index];
+      rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+      rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+    }
+    return [...PerspectiveWarp.solve(rows), 1];
+  }
+
+  // Gaussian elimination with partial pivoting on an augmented n x (n+1) matrix
+  private static solve(rows: number[][]): number[] {
+    const n = rows.length;
+    for (let column = 0; column < n; column += 1) {
+      let pivot = column;
+      for (let row = column + 1; row < n; row += 1) {
+        if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+      }
+      if (Math.abs(rows[pivot][column]) < 1e-10) {
+        throw new Error('Ticket corners are degenerate');
+      }
+      [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+
+      for (let row = 0; row < n; row += 1) {
+        if (row === column) continue;
+        const factor = rows[row][column] / rows[column][column];
+        for (let k = column; k <= n; k += 1) {
+          rows[row][k] -= factor * rows[column][k];
+        }
+      }
+    }
+    return rows.map((row, index) => row[n] / row[index]);
+  }
+
+  // Bilinear sample, clamped to the image
+  private static sample(image: DecodedImage, x: number, y: number, target: Uint8Array, offset: number): void {
+    const clampedX = Math.min(image.width - 1, Math.max(0, x));
+    const clampedY = Math.min(image.height - 1, Math.max(0, y));
+    const x0 = Math.floor(clampedX);
+    const y0 = Math.floor(clampedY);
+    const x1 = Math.min(image.width - 1, x0 + 1);
+    const y1 = Math.min(image.height - 1, y0 + 1);
+    const dx = clampedX - x0;
+    const dy = clampedY - y0;
+
+    const topLeft = (y0 * image.width + x0) * 4;
+    const topRight = (y0 * image.width + x1) * 4;
+    const bottomLeft = (y1 * image.width + x0) * 4;
+    const bottomRight = (y1 * image.width + x1) * 4;
+
+    for (let channel = 0; channel < 4; channel += 1) {
+      const top = image.data[topLeft + channel] * (1 - dx) + image.data[topRight + channel] * dx;
+      const bottom = image.data[bottomLeft + channel] * (1 - dx) + image.data[bottomRight + channel] * dx;
+      target[offset + channel] = Math.round(top * (1 - dy) + bottom * dy);
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import * as ImageManipulator from 'expo-image-manipulator';
+import { ImageDecoder } from './imageDecoder';
+import { PerspectiveWarp } from './perspectiveWarp';
+import { Point, TicketCorners } from '../types';
+
+// Detection runs on a small copy; corners are scaled back to the full image
+const DETECT_MAX_SIDE = 256;
+// The paper must cover this share of the frame to count as the ticket
+const MIN_TICKET_AREA = 0.1;
+// Paper pixels over the area of the fitted quadrilateral; printed text makes up most of the gap
+const MIN_QUAD_FILL = 0.7;
+// Corners this close to the frame (as a share of its size) mean the photo is already cropped to the ticket
+const FRAME_MARGIN = 0.03;
+// OCR gains nothing from a larger flattened ticket
+const MAX_OUTPUT_SIDE = 1600;
+
+export interface TicketDetection {
+  width: number;
+  height: number;
+  // Null when no ticket-shaped region was found and the user should place the corners
+  corners: TicketCorners | null;
+}
+
+// Finds the thermal ticket (the largest bright region) in a photo and flattens it
+export class TicketDetector {
+  static async detect(uri: string): Promise<TicketDetection> {
+    const { width, height } = await ImageManipulator.manipulateAsync(uri, []);
+    const image = await ImageDecoder.decode(uri, DETECT_MAX_SIDE);
+
+    const gray = new Uint8Array(image.width * image.height);
+    for (let index = 0; index < gray.length; index += 1) {
+      const offset = index * 4;
+      gray[index] = Math.round(
+        0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2],
+      );
+    }
+
+    const threshold = TicketDetector.otsuThreshold(gray);
+    const region = TicketDetector.largestRegion(gray, image.width, image.height, threshold);
+    if (region.length < MIN_TICKET_AREA * gray.length) {
+      console.log('🎫 No ticket region found');
+      return { width, height, corners: null };
+    }
+
+    const corners = TicketDetector.fitQuad(region, image.width);
+    const fill = region.length / TicketDetector.quadArea(corners);
+    if (fill < MIN_QUAD_FILL) {
+      console.log(`🎫 Ticket region is not rectangular (fill ${fill.toFixed(2)})`);
+      return { width, height, corners: null };
+    }
+
+    const scale = width / image.width;
+    return {
+      width,
+      height,
+      corners: corners.map((point) => ({ x: point.x * scale, y: point.y * scale })) as TicketCorners,
+    };
+  }
+
+  // Every corner within the frame margin: nothing to crop or straighten
+  static coversFrame(corners: TicketCorners, width: number, height: number): boolean {
+    const frame = TicketDetector.frameCorners(width, height, 0);
+    const marginX = width * FRAME_MARGIN;
+    const marginY = height * FRAME_MARGIN;
+    return corners.every(
+      (point, index) => Math.abs(point.x - frame[index].x) <= marginX && Math.abs(point.y - frame[index].y) <= marginY,
+    );
+  }
+
+  // Starting corners for manual adjustment, inset from the frame
+  static frameCorners(width: number, height: number, inset = 0.1): TicketCorners {
+    const left = width * inset;
+    const right = width * (1 - inset);
+    const top = height * inset;
+    const bottom = height * (1 - inset);
+    return [
+      { x: left, y: top },
+      { x: right, y: top },
+      { x: right, y: bottom },
+      { x: left, y: bottom },
+    ];
+  }
+
+  // Crop the ticket out of the photo and warp it upright; returns a new JPEG
+  static async flatten(uri: string, corners: TicketCorners): Promise<string> {
+    const image = await ImageDecoder.decode(uri);
+    const size = PerspectiveWarp.outputSize(corners);
+    const scale = Math.min(1, MAX_OUTPUT_SIDE / Math.max(size.width, size.height));
+    const flattened = PerspectiveWarp.warp(
+      image,
+      corners,
+      Math.max(1, Math.round(size.width * scale)),
+      Math.max(1, Math.round(size.height * scale)),
+    );
+    return ImageDecoder.writeJpeg(flattened);
+  }
+
+  // Threshold that best separates the histogram into two classes (paper and background)
+  private static otsuThreshold(gray: Uint8Array): number {
+    const histogram = new Array<number>(256).fill(0);
+    gray.forEach((value) => {
+      histogram[value] += 1;
+    });
+
+    const total = gray.length;
+    const weightedTotal = histogram.reduce((sum, count, value) => sum + count * value, 0);
+    let backgroundCount = 0;
+    let backgroundSum = 0;
+    let bestThreshold = 127;
+    let bestVariance = -1;
+
+    for (let value = 0; value < 256; value += 1) {
+      backgroundCount += histogram[value];
+      if (backgroundCount === 0) continue;
+      const foregroundCount = total - backgroundCount;
+      if (foregroundCount === 0) break;
+
+      backgroundSum += value * histogram[value];
+      const backgroundMean = backgroundSum / backgroundCount;
+      const foregroundMean = (weightedTotal - backgroundSum) / foregroundCount;
+      const variance = backgroundCount * foregroundCount * (backgroundMean - foregroundMean) ** 2;
+      if (variance > bestVariance) {
+        bestVariance = variance;
+        bestThreshold = value;
+      }
+    }
+    return bestThreshold;
+  }
+
+  // Pixel indices of the largest 4-connected region brighter than the threshold
+  private static largestRegion(gray: Uint8Array, width: number, height: number, threshold: number): number[] {
+    const visited = new Uint8Array(gray.length);
+    const stack = new Int32Array(gray.length);
+    let largest: number[] = [];
+
+    for (let start = 0; start < gray.length; start += 1) {
+      if (visited[start] || gray[start] <= threshold) continue;
+
+      const region: number[] = [];
+      let top = 0;
+      stack[top++] = start;
+      visited[start] = 1;
+      while (top > 0) {
+        const index = stack[--top];
+        region.push(index);
+        const x = index % width;
+        const neighbours = [
+          x > 0 ? index - 1 : -1,
+          x < width - 1 ? index + 1 : -1,
+          index >= width ? index - width : -1,
+          index < gray.length - width ? index + width : -1,
+        ];
+        for (const next of neighbours) {
+          if (next >= 0 && !visited[next] && gray[next] > threshold) {
+            visited[next] = 1;
+            stack[top++] = next;
+          }
+        }
+      }
+
+      if (region.length > largest.length) largest = region;
+    }
+    return largest;
+  }
+
+  // Extreme points along the diagonals; holds for tickets turned up to about 30 degrees
+  private static fitQuad(region: number[], width: number): TicketCorners {
+    const points = region.map((index) => ({ x: index % width, y: Math.floor(index / width) }));
+    const pick = (score: (point: Point) => number) =>
+      points.reduce((best, point) => (score(point) > score(best) ? point : best));
+    return [
+      pick((point) => -point.x - point.y),
+      pick((point) => point.x - point.y),
+      pick((point) => point.x + point.y),
+      pick((point) => -point.x + point.y),
+    ];
+  }
+
+  // Shoelace formula
+  private static quadArea(corners: TicketCorners): number {
+    let twiceArea = 0;
+    corners.forEach((point, index) => {
+      const next = corners[(index + 1) % corners.length];
+      twiceArea += point.x * next.y - next.x * point.y;
+    });
+    return Math.abs(twiceArea) / 2;
+  }
+}